@@ -1,100 +1,630 @@
 
-import React, { useState, Suspense, useCallback } from 'react';
+import React, { useState, Suspense, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Loader } from '@react-three/drei';
 import Scene from './components/Scene';
 import HandTracker from './components/HandTracker';
+import CameraControls from './components/CameraControls';
+import CalibrationWizard from './components/CalibrationWizard';
+import SessionControls from './components/SessionControls';
+import VirtualInput from './components/VirtualInput';
+import WebcamInput from './components/WebcamInput';
+import PhotoImporter from './components/PhotoImporter';
+import TreeControls from './components/TreeControls';
+import TuningPanel, { TreeTuning } from './components/TuningPanel';
+import AdaptiveQuality from './components/AdaptiveQuality';
+import { randomSeed } from './utils/random';
+import { PhotoCollection, releasePhotoSources, resolvePhotoCollection, sourcesFromStoredPhotos } from './utils/photoSources';
+import { clearStoredPhotos, readImportedPhotos, replaceStoredPhotos } from './utils/photoStore';
+import { Calibration, DEFAULT_CALIBRATION, DEFAULT_PROFILE, loadCalibrationProfiles, mapToDepth, mapToReach, saveCalibrationProfiles } from './utils/calibration';
+import { CameraSettings, cameraAspect, loadCameraSettings, saveCameraSettings } from './utils/cameraCapture';
+import { getUrlParam, readSeedFromUrl, setUrlParam, writeSeedToUrl } from './utils/urlParams';
+import { DEFAULT_TREE_PRESET, TREE_PRESETS, TreePreset, loadTreePresets, mergeTreePresets } from './utils/treePresets';
+import { QUALITY_SETTINGS, readQualityMode } from './utils/quality';
+import { DEFAULT_FORMATION, FORMATIONS, FORMATION_ACTIONS, isFormationId } from './utils/formations';
+import { GALLERY_LAYOUTS, GalleryLayoutId, isGalleryLayoutId } from './utils/galleryLayouts';
+import {
+  ACTION_INFO,
+  BindingConfig,
+  DEFAULT_BINDING_CONFIG,
+  GESTURE_INFO,
+  bindingsForHand,
+  boundGestures,
+  handOverrides,
+  loadGestureBindings,
+} from './utils/gestureBindings';
+import { GestureEvent } from './utils/gestureRecognizer';
+import { CAMERA_INPUTS, FALLBACK_INPUTS, INPUTS, InputId, KEY_GESTURES, KEY_MOTIONS, isProviderInput, parseInputList } from './utils/inputProviders';
+import { MotionReading, parseMotionDetectorOptions } from './utils/motionDetector';
+import { SessionPlayer, SessionRecorder, loadHandRecording } from './utils/sessionRecording';
+import { BindableGesture, FormationId, HandUpdate, Handedness, MotionEvent, SceneAction, SceneTrigger } from './types';
+
+const HANDS: Handedness[] = ['Left', 'Right'];
+
+const IDLE_UPDATE: HandUpdate = {
+  fingerCount: 0,
+  gesture: 'NONE',
+  confidence: 0,
+  position: { x: 0.5, y: 0.5 },
+  pointer: null,
+  palmSize: null,
+  isTracking: false,
+  hands: [],
+  bimanual: null,
+};
+
+// Where the HUD's hand came from: the camera while it sees a hand, else the camera-free inputs
+type UpdateSource = 'camera' | 'virtual';
+
+// A fire-once gesture (pose start or motion), before it is looked up in the bindings
+interface TriggerSource {
+  id: number;
+  gesture: BindableGesture;
+  hand: Handedness | null;
+  motion: MotionEvent | null;
+}
 
 const App: React.FC = () => {
   const [started, setStarted] = useState(false);
+
+  // Inputs: ?input=camera,wind,keyboard,mouse,touch. Without a camera (declined, failed
+  // or not listed) keyboard, mouse and touch all take over.
+  const [inputs] = useState(() => parseInputList(getUrlParam('input')));
+  const cameraInputs = inputs.filter((id) => CAMERA_INPUTS.includes(id));
+  const [cameraState, setCameraState] = useState<'on' | 'off' | 'failed' | 'no-model'>(() => (cameraInputs.length > 0 ? 'on' : 'off'));
+  const cameraOn = cameraState === 'on';
+  const windOn = cameraOn && inputs.includes('wind');
+  const virtualInputs = useMemo<InputId[]>(() => {
+    const chosen: InputId[] = inputs.filter(isProviderInput);
+    return cameraOn ? chosen : [...chosen, ...FALLBACK_INPUTS.filter((id) => !chosen.includes(id))];
+  }, [inputs, cameraOn]);
+
+  // Which camera, how big and how fast; remembered on this machine
+  const [cameraSettings, setCameraSettings] = useState(loadCameraSettings);
+  const handleCameraSettings = useCallback((settings: CameraSettings) => {
+    saveCameraSettings(settings);
+    setCameraSettings(settings);
+  }, []);
+
+  // Calibration: per-profile hand thresholds, smoothing and joystick reach. Skipping it
+  // uses the defaults; a profile's saved calibration is offered on the next visit.
+  const [calibrationProfiles, setCalibrationProfiles] = useState(loadCalibrationProfiles);
+  const [profileName, setProfileName] = useState(calibrationProfiles.active);
+  const [calibration, setCalibration] = useState<Calibration>(DEFAULT_CALIBRATION);
+  const [calibrating, setCalibrating] = useState(false);
+  const calibrationRef = useRef(calibration);
+  calibrationRef.current = calibration;
+  const profile = profileName.trim() || DEFAULT_PROFILE;
+  const savedCalibration = calibrationProfiles.profiles[profile] ?? null;
+  const pipelineOptions = useMemo(() => ({ pose: calibration.pose, smoothing: calibration.smoothing }), [calibration]);
+
+  const startCalibrated = (next: Calibration, save: boolean) => {
+    const profiles = { active: profile, profiles: save ? { ...calibrationProfiles.profiles, [profile]: next } : calibrationProfiles.profiles };
+    saveCalibrationProfiles(profiles);
+    setCalibrationProfiles(profiles);
+    setCalibration(next);
+    setCalibrating(false);
+    setStarted(true);
+  };
   
-  // Visual Feedback State
-  const [hudData, setHudData] = useState({ fingers: 0, gesture: 'NONE' });
-  
-  // Real-time gesture data is passed to Scene via props to avoid re-rendering entire Canvas on every frame
-  // We use a ref-like pattern by passing the raw object or utilizing the Scene's internal handling
-  // However, specifically for the App UI, we need state.
-  const [currentGesture, setCurrentGesture] = useState('NONE');
+  // Visual Feedback State: the latest reading of every hand
+  const [hud, setHud] = useState<HandUpdate>(IDLE_UPDATE);
+  const [heldMs, setHeldMs] = useState<Partial<Record<Handedness, number>>>({});
+
+  // Gesture -> action registry, remappable per installation (and per hand) via bindings.json
+  const [bindingConfig, setBindingConfig] = useState<BindingConfig>(DEFAULT_BINDING_CONFIG);
+
+  useEffect(() => {
+    loadGestureBindings().then(setBindingConfig);
+  }, []);
   const [handPosition, setHandPosition] = useState({ x: 0.5, y: 0.5 });
+  const [handDepth, setHandDepth] = useState(0); // Push/pull, -1..1 (see mapToDepth)
+  const depthRestRef = useRef<number | null>(null);
+
+  // Hold actions run while any hand holds their gesture, each hand through its own bindings
+  const heldActions = hud.hands
+    .map((hand) => bindingsForHand(bindingConfig, hand.handedness)[hand.gesture])
+    .filter((action): action is SceneAction => !!action && ACTION_INFO[action].mode === 'hold');
+
+  // Trigger actions fire once per pose start or motion gesture
+  const [triggerSource, setTriggerSource] = useState<TriggerSource | null>(null);
+  const trigger = useMemo<SceneTrigger | null>(() => {
+    if (!triggerSource) return null;
+    const action = bindingsForHand(bindingConfig, triggerSource.hand)[triggerSource.gesture];
+    if (!action || ACTION_INFO[action].mode !== 'trigger') return null;
+    return { id: triggerSource.id, action, motion: triggerSource.motion };
+  }, [triggerSource, bindingConfig]);
+
+  // Motion gestures are instantaneous; flash their HUD chip briefly
+  const [flashGesture, setFlashGesture] = useState<BindableGesture | null>(null);
+
+  useEffect(() => {
+    if (!triggerSource?.motion) return;
+    setFlashGesture(triggerSource.gesture);
+    const timer = setTimeout(() => setFlashGesture(null), 700);
+    return () => clearTimeout(timer);
+  }, [triggerSource]);
+
+  // Reveal layout, switchable at runtime (?layout= picks the initial one)
+  const [galleryLayout, setGalleryLayout] = useState<GalleryLayoutId>(() => {
+    const fromUrl = getUrlParam('layout');
+    return isGalleryLayoutId(fromUrl) ? fromUrl : 'arc';
+  });
+
+  // Galaxy formation the expanded tree morphs into (?formation= picks the initial one)
+  const [formation, setFormation] = useState<FormationId>(() => {
+    const fromUrl = getUrlParam('formation');
+    return isFormationId(fromUrl) ? fromUrl : DEFAULT_FORMATION;
+  });
+
+  // Tree seed: restored from ?seed= so a shared link brings back the same tree
+  const [seed, setSeed] = useState(() => readSeedFromUrl() ?? randomSeed());
+
+  useEffect(() => {
+    writeSeedToUrl(seed);
+  }, [seed]);
+
+  // Tree species: built-ins plus ./trees.json (or ?trees=), picked by ?tree=<id>
+  const [treePresets, setTreePresets] = useState<TreePreset[]>(TREE_PRESETS);
+  const [treeId, setTreeId] = useState(() => getUrlParam('tree') ?? DEFAULT_TREE_PRESET.id);
+  const treePreset = treePresets.find((preset) => preset.id === treeId) ?? DEFAULT_TREE_PRESET;
+
+  useEffect(() => {
+    loadTreePresets().then(setTreePresets);
+  }, []);
+
+  useEffect(() => {
+    setUrlParam('tree', treePreset.id === DEFAULT_TREE_PRESET.id ? null : treePreset.id);
+  }, [treePreset.id]);
+
+  // Quality tier: pinned by ?quality= or VITE_QUALITY, otherwise stepped from frame times
+  const [qualityMode] = useState(readQualityMode);
+  const [qualityTier, setQualityTier] = useState(qualityMode.tier);
+  const quality = QUALITY_SETTINGS[qualityTier];
+
+  // Live edits from the tuning panel (Alt+Shift+D); picking another species drops them
+  const [tuning, setTuning] = useState<TreeTuning | null>(null);
+  const [tuningOpen, setTuningOpen] = useState(false);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.altKey && e.shiftKey && e.code === 'KeyD') {
+        e.preventDefault();
+        setTuningOpen((open) => !open);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  const handleTreeSelect = (id: string) => {
+    setTreeId(id);
+    setTuning(null);
+  };
+
+  const handleTreePresetsLoaded = (loaded: TreePreset[]) => {
+    setTreePresets((current) => mergeTreePresets(current, loaded));
+    handleTreeSelect(loaded[0].id);
+  };
+
+  // Photos: imported set, manifest or folder next to the app, else online samples
+  const [photoCollection, setPhotoCollection] = useState<PhotoCollection>({ origin: 'default', sources: [] });
+
+  useEffect(() => {
+    let cancelled = false;
+    resolvePhotoCollection(16).then((collection) => {
+      if (cancelled) {
+        releasePhotoSources(collection.sources);
+      } else {
+        setPhotoCollection(collection);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Revoke object URLs of a collection once it has been replaced
+  useEffect(() => {
+    return () => releasePhotoSources(photoCollection.sources);
+  }, [photoCollection]);
+
+  const handleImport = useCallback(async (files: File[]) => {
+    const photos = await readImportedPhotos(files);
+    try {
+      await replaceStoredPhotos(photos);
+    } catch (e) {
+      // Still show them for this session even if they can't be persisted
+      console.warn('Could not store imported photos:', e);
+    }
+    setPhotoCollection({ origin: 'imported', sources: sourcesFromStoredPhotos(photos) });
+  }, []);
 
-  const handleHandUpdate = useCallback((data: { 
-    fingerCount: number; 
-    gesture: string; 
-    position: { x: number; y: number }; 
-    isTracking: boolean 
-  }) => {
-    setHudData({ fingers: data.fingerCount, gesture: data.gesture });
-    setCurrentGesture(data.gesture);
-    if (data.isTracking) {
-        setHandPosition(data.position);
+  const handleClearImport = useCallback(async () => {
+    try {
+      await clearStoredPhotos();
+    } catch (e) {
+      console.warn('Could not clear imported photos:', e);
     }
+    setPhotoCollection(await resolvePhotoCollection(16));
   }, []);
 
+  // Latest update of each source; the camera wins whenever it has a hand
+  const updatesRef = useRef<Record<UpdateSource, HandUpdate>>({ camera: IDLE_UPDATE, virtual: IDLE_UPDATE });
+
+  const handleHandUpdate = useCallback((source: UpdateSource, data: HandUpdate) => {
+    updatesRef.current[source] = data;
+    const { camera, virtual } = updatesRef.current;
+    const chosen = camera.hands.length > 0 ? camera : virtual;
+    setHud(chosen);
+    if (chosen.isTracking) {
+        // Only the camera is calibrated; mouse and touch already span the screen
+        setHandPosition(chosen === camera ? mapToReach(chosen.position, calibrationRef.current) : chosen.position);
+    }
+
+    // Push/pull from the calibrated resting palm size, or else the size the hand arrived at
+    const palmSize = chosen === camera ? chosen.palmSize : null;
+    if (palmSize === null) {
+        depthRestRef.current = null;
+        setHandDepth(0);
+    } else {
+        depthRestRef.current ??= calibrationRef.current.restPalmSize ?? palmSize;
+        setHandDepth(mapToDepth(palmSize, depthRestRef.current));
+    }
+  }, []);
+
+  const handleCameraUpdate = useCallback((data: HandUpdate) => handleHandUpdate('camera', data), [handleHandUpdate]);
+  const handleVirtualUpdate = useCallback((data: HandUpdate) => handleHandUpdate('virtual', data), [handleHandUpdate]);
+
+  // Wind: whole-frame webcam motion, tunable via ?windTuning=
+  const [wind, setWind] = useState<MotionReading | null>(null);
+  const [windTuning] = useState(() => parseMotionDetectorOptions(getUrlParam('windTuning')));
+
+  // Hand-tracking sessions: record the live landmarks, or replay a recording through
+  // the same pipeline instead of the camera (?replay=<url> loads one at startup)
+  const recorder = useMemo(() => new SessionRecorder(), []);
+  const [player, setPlayer] = useState<SessionPlayer | null>(null);
+
+  useEffect(() => {
+    const url = getUrlParam('replay');
+    if (!url) return;
+    loadHandRecording(url).then((recording) => {
+      if (recording) setPlayer(new SessionPlayer(recording));
+    });
+  }, []);
+
+  const handleCameraUnavailable = useCallback((reason: string, cause: 'camera' | 'model' = 'camera') => {
+    console.warn(`${cause === 'model' ? 'Hand model' : 'Camera'} unavailable (${reason}), falling back to keyboard, mouse and touch`);
+    updatesRef.current.camera = IDLE_UPDATE;
+    setCameraState(cause === 'model' ? 'no-model' : 'failed');
+  }, []);
+
+  // A camera plugged in after a failed start gets another try
+  useEffect(() => {
+    if (cameraState !== 'failed' || !navigator.mediaDevices) return;
+    const retry = () => setCameraState('on');
+    navigator.mediaDevices.addEventListener('devicechange', retry);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', retry);
+  }, [cameraState]);
+
+  // Without a camera there is nothing to calibrate; carry on with the other inputs
+  const handleCalibrationUnavailable = useCallback((reason: string, cause: 'camera' | 'model') => {
+    handleCameraUnavailable(reason, cause);
+    setCalibration(DEFAULT_CALIBRATION);
+    setCalibrating(false);
+    setStarted(true);
+  }, [handleCameraUnavailable]);
+
+  const handleGestureStart = useCallback((event: GestureEvent, hand: Handedness) => {
+    setTriggerSource((last) => ({ id: (last?.id ?? 0) + 1, gesture: event.gesture, hand, motion: null }));
+    setHeldMs((held) => ({ ...held, [hand]: 0 }));
+  }, []);
+
+  const handleGestureHold = useCallback((event: GestureEvent, hand: Handedness) => {
+    setHeldMs((held) => ({ ...held, [hand]: event.durationMs }));
+  }, []);
+
+  const handleMotion = useCallback((event: MotionEvent, hand: Handedness) => {
+    setTriggerSource((last) => ({ id: (last?.id ?? 0) + 1, gesture: event.gesture, hand, motion: event }));
+  }, []);
+
+  // App-level trigger actions (the scene handles its own, like screenshots)
+  useEffect(() => {
+    if (trigger?.action === 'cycleLayout') {
+      setGalleryLayout((current) => {
+        const index = GALLERY_LAYOUTS.findIndex((layout) => layout.id === current);
+        return GALLERY_LAYOUTS[(index + 1) % GALLERY_LAYOUTS.length].id;
+      });
+    } else if (trigger?.action === 'cycleFormation') {
+      setFormation((current) => {
+        const index = FORMATIONS.findIndex((entry) => entry.id === current);
+        return FORMATIONS[(index + 1) % FORMATIONS.length].id;
+      });
+    } else if (trigger && FORMATION_ACTIONS[trigger.action]) {
+      setFormation(FORMATION_ACTIONS[trigger.action]!);
+    }
+  }, [trigger?.id]);
+
+  // Shared bindings first, then what each hand does differently
+  const bound = boundGestures(bindingConfig.bindings);
+  const chips = [
+    ...bound.map((entry) => ({ ...entry, hand: null as Handedness | null })),
+    ...HANDS.flatMap((hand) => handOverrides(bindingConfig, hand).map((entry) => ({ ...entry, hand }))),
+  ];
+  const isChipActive = (gesture: BindableGesture, action: SceneAction, hand: Handedness | null) =>
+    flashGesture === gesture ||
+    hud.hands.some((reading) =>
+      (hand === null || reading.handedness === hand) &&
+      reading.gesture === gesture &&
+      bindingsForHand(bindingConfig, reading.handedness)[gesture] === action
+    );
+
   return (
     <>
       <div className="relative w-full h-full bg-[#05020a]">
-        {!started && (
+        {!started && !calibrating && (
           <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/90 text-white">
             <h1 className="text-5xl md:text-7xl font-thin tracking-[0.2em] mb-4 text-pink-200 text-center drop-shadow-[0_0_15px_rgba(255,183,197,0.5)]">
               SAKURA DREAM
             </h1>
             <p className="text-gray-400 mb-12 text-center max-w-lg px-6 font-light leading-relaxed">
-              A webcam-controlled interactive installation.
+              A webcam-controlled interactive installation. No camera? Mouse, touch and keys work too.
               <br/><br/>
               <span className="grid grid-cols-2 gap-x-8 gap-y-4 text-left text-sm border-t border-b border-gray-800 py-6">
-                <span>✊ <b>Fist:</b> Reform Tree</span>
-                <span>✋ <b>Open Hand:</b> Galaxy Mode</span>
-                <span>☝️ <b>1 Finger:</b> Cycle Color</span>
-                <span>✌️ <b>2 Fingers:</b> Inspect Photos</span>
+                {chips.map(({ gesture, action, hand }) => (
+                  <span key={`${hand ?? 'both'}-${gesture}`}>
+                    {GESTURE_INFO[gesture].icon} <b>{hand ? `${hand} ` : ''}{GESTURE_INFO[gesture].label}:</b> {ACTION_INFO[action].label}
+                  </span>
+                ))}
+                <span className="col-span-2">🙌 <b>Both hands:</b> Spread to Zoom, Twist to Turn the Galaxy</span>
+                <span className="col-span-2 text-xs text-gray-500">
+                  ⌨️ <b>Keys:</b> {Object.keys(KEY_GESTURES).join(' ')} poses · Arrows, {Object.keys(KEY_MOTIONS).filter((key) => key.length === 1).join(' ')} motions · Space pinch
+                  <br/>
+                  🖱️ <b>Mouse / one finger:</b> steer and point · <b>Multi-finger tap:</b> finger count
+                </span>
               </span>
             </p>
-            <button 
-              onClick={() => setStarted(true)}
-              className="px-10 py-4 border border-pink-500/50 rounded-full text-pink-100 hover:bg-pink-900/20 hover:scale-105 transition-all tracking-widest uppercase text-sm shadow-[0_0_20px_rgba(255,183,197,0.2)]"
+            {inputs.includes('camera') && (
+              <>
+                <label className="mb-6 flex items-center gap-3 text-xs text-gray-500 tracking-widest uppercase">
+                  Profile
+                  <input
+                    list="calibration-profiles"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                    placeholder={DEFAULT_PROFILE}
+                    className="w-40 bg-transparent border-b border-gray-700 focus:border-pink-400 text-pink-100 text-center normal-case tracking-normal outline-none"
+                  />
+                  <datalist id="calibration-profiles">
+                    {Object.keys(calibrationProfiles.profiles).map((name) => <option key={name} value={name} />)}
+                  </datalist>
+                </label>
+                <button 
+                  onClick={() => (savedCalibration ? startCalibrated(savedCalibration, false) : setCalibrating(true))}
+                  className="px-10 py-4 border border-pink-500/50 rounded-full text-pink-100 hover:bg-pink-900/20 hover:scale-105 transition-all tracking-widest uppercase text-sm shadow-[0_0_20px_rgba(255,183,197,0.2)]"
+                >
+                  {savedCalibration ? 'Start Camera' : 'Calibrate & Start'}
+                </button>
+                <div className="mt-4 flex gap-6">
+                  {savedCalibration && (
+                    <button onClick={() => setCalibrating(true)} className="text-xs text-gray-500 hover:text-pink-200 tracking-widest uppercase transition-colors">
+                      Recalibrate
+                    </button>
+                  )}
+                  <button onClick={() => startCalibrated(DEFAULT_CALIBRATION, false)} className="text-xs text-gray-500 hover:text-pink-200 tracking-widest uppercase transition-colors">
+                    Skip Calibration
+                  </button>
+                </div>
+              </>
+            )}
+            {cameraInputs.length > 0 && !inputs.includes('camera') && (
+              // Wind alone reads raw motion: no hand model, nothing to calibrate
+              <button
+                onClick={() => {
+                  setCameraState('on');
+                  setStarted(true);
+                }}
+                className="px-10 py-4 border border-pink-500/50 rounded-full text-pink-100 hover:bg-pink-900/20 hover:scale-105 transition-all tracking-widest uppercase text-sm shadow-[0_0_20px_rgba(255,183,197,0.2)]"
+              >
+                Start Camera
+              </button>
+            )}
+            <button
+              onClick={() => {
+                setCameraState('off');
+                setStarted(true);
+              }}
+              className={cameraInputs.length > 0
+                ? "mt-4 text-xs text-gray-500 hover:text-pink-200 tracking-widest uppercase transition-colors"
+                : "px-10 py-4 border border-pink-500/50 rounded-full text-pink-100 hover:bg-pink-900/20 hover:scale-105 transition-all tracking-widest uppercase text-sm shadow-[0_0_20px_rgba(255,183,197,0.2)]"}
             >
-              Start Camera
+              {cameraInputs.length > 0 ? 'Start without Camera' : 'Start'}
             </button>
           </div>
         )}
 
+        {calibrating && (
+          <CalibrationWizard
+            profile={profile}
+            camera={cameraSettings}
+            onComplete={(next) => startCalibrated(next, true)}
+            onSkip={() => startCalibrated(savedCalibration ?? DEFAULT_CALIBRATION, false)}
+            onUnavailable={handleCalibrationUnavailable}
+          />
+        )}
+
         <Canvas
-          dpr={[1, 2]} 
+          dpr={quality.dpr}
           gl={{ antialias: true, alpha: false, powerPreference: "high-performance" }}
           shadows={false}
         >
+          {qualityMode.auto && <AdaptiveQuality tier={qualityMode.tier} onChange={setQualityTier} />}
           <Suspense fallback={null}>
             <Scene 
-              gesture={currentGesture} 
+              actions={heldActions}
+              trigger={trigger}
               handPos={handPosition}
+              handDepth={handDepth}
+              pointer={hud.pointer}
+              bimanual={hud.bimanual}
+              wind={windOn ? wind : null}
+              seed={seed}
+              treeShape={tuning?.params ?? treePreset.params}
+              shaderTuning={tuning?.shader ?? treePreset.shader}
+              photoSources={photoCollection.sources}
+              galleryLayout={galleryLayout}
+              formation={formation}
+              quality={quality}
+              deadZone={calibration.deadZone}
             />
           </Suspense>
         </Canvas>
         
+        <PhotoImporter
+          origin={photoCollection.origin}
+          count={photoCollection.sources.length}
+          onImport={handleImport}
+          onClear={handleClearImport}
+        />
+
         {started && (
           <>
-            <HandTracker onUpdate={handleHandUpdate} />
+            {((cameraOn && inputs.includes('camera')) || player) && (
+              <HandTracker
+                onUpdate={handleCameraUpdate}
+                onMotion={handleMotion}
+                onGestureStart={handleGestureStart}
+                onGestureHold={handleGestureHold}
+                onUnavailable={handleCameraUnavailable}
+                recorder={recorder}
+                player={player}
+                camera={cameraSettings}
+                pipelineOptions={pipelineOptions}
+              />
+            )}
+            <SessionControls
+              recorder={recorder}
+              aspect={cameraAspect(cameraSettings)}
+              canRecord={cameraOn && inputs.includes('camera')}
+              player={player}
+              onPlayerChange={setPlayer}
+            />
+            {windOn && (
+              <WebcamInput
+                onMotionUpdate={setWind}
+                options={windTuning}
+                belowTracker={inputs.includes('camera')}
+                onUnavailable={handleCameraUnavailable}
+                camera={cameraSettings}
+              />
+            )}
+            {cameraOn && !player && <CameraControls settings={cameraSettings} onChange={handleCameraSettings} />}
+            <VirtualInput
+              inputs={virtualInputs}
+              onUpdate={handleVirtualUpdate}
+              onMotion={handleMotion}
+              onGestureStart={handleGestureStart}
+              onGestureHold={handleGestureHold}
+            />
             
             {/* Clean, Transparent HUD */}
             <div className="absolute top-6 left-6 z-40 pointer-events-none font-mono select-none">
                 <div className="flex flex-col gap-1 drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]">
                     <div className="text-xs text-pink-400 uppercase tracking-widest opacity-80">System Status</div>
-                    <div className="text-2xl text-white font-light tracking-tighter">
-                        {hudData.gesture === 'NONE' ? 'WAITING' : hudData.gesture}
+                    <div className="text-[10px] text-gray-500 uppercase tracking-widest">
+                        {[...(cameraOn ? cameraInputs : []), ...virtualInputs]
+                          .map((id) => INPUTS.find((input) => input.id === id)?.label)
+                          .join(' · ')}
+                        {cameraState === 'failed' && <span className="ml-2 text-red-300">Camera unavailable</span>}
+                        {cameraState === 'no-model' && <span className="ml-2 text-red-300">Hand model failed to load</span>}
                     </div>
-                    <div className="text-sm text-gray-300">
-                        Fingers: <span className="text-pink-200 font-bold">{hudData.fingers}</span>
+                    <div className="text-2xl text-white font-light tracking-tighter">
+                        {hud.gesture === 'NONE' ? 'WAITING' : hud.gesture}
                     </div>
+                    {hud.hands.length === 0 && (
+                      <div className="text-sm text-gray-300">
+                          Fingers: <span className="text-pink-200 font-bold">0</span>
+                      </div>
+                    )}
+                    {hud.hands.map((hand) => (
+                      <div key={hand.handedness} className={`text-sm ${hand.isTracking ? 'text-gray-300' : 'text-gray-500'}`}>
+                          <span className="mr-2 text-pink-400">{hand.handedness === 'Left' ? 'L' : 'R'}</span>
+                          {hud.hands.length > 1 && <span className="mr-2 text-white">{hand.gesture === 'NONE' ? '—' : hand.gesture}</span>}
+                          Fingers: <span className="text-pink-200 font-bold">{hand.fingerCount}</span>
+                          {hand.gesture !== 'NONE' && (
+                            <span className="ml-3 text-gray-500">
+                              {Math.round(hand.confidence * 100)}% · {((heldMs[hand.handedness] ?? 0) / 1000).toFixed(1)}s
+                            </span>
+                          )}
+                      </div>
+                    ))}
+                    {hud.bimanual && (
+                      <div className="text-xs text-purple-300">
+                          🙌 Spread {Math.round(hud.bimanual.spread * 100)}% · Twist {Math.round((hud.bimanual.twist * 180) / Math.PI)}°
+                      </div>
+                    )}
                     
                     {/* Mode Indicator Overlay */}
-                    <div className="mt-4 flex gap-2">
-                         <div className={`px-2 py-0.5 text-[10px] rounded border ${hudData.gesture === 'FIST' ? 'border-green-400 text-green-400 bg-green-900/30' : 'border-gray-700 text-gray-700'}`}>TREE</div>
-                         <div className={`px-2 py-0.5 text-[10px] rounded border ${hudData.gesture === 'OPEN_HAND' ? 'border-purple-400 text-purple-400 bg-purple-900/30' : 'border-gray-700 text-gray-700'}`}>GALAXY</div>
-                         <div className={`px-2 py-0.5 text-[10px] rounded border ${hudData.gesture === 'ONE_FINGER' ? 'border-yellow-400 text-yellow-400 bg-yellow-900/30' : 'border-gray-700 text-gray-700'}`}>COLOR</div>
-                         <div className={`px-2 py-0.5 text-[10px] rounded border ${hudData.gesture === 'TWO_FINGERS' ? 'border-blue-400 text-blue-400 bg-blue-900/30' : 'border-gray-700 text-gray-700'}`}>PHOTO</div>
+                    <div className="mt-4 flex flex-wrap gap-2 max-w-xs">
+                         {chips.map(({ gesture, action, hand }) => (
+                           <div
+                             key={`${hand ?? 'both'}-${gesture}`}
+                             title={`${hand ? `${hand} ` : ''}${GESTURE_INFO[gesture].label}`}
+                             className={`px-2 py-0.5 text-[10px] rounded border ${isChipActive(gesture, action, hand) ? ACTION_INFO[action].activeClass : 'border-gray-700 text-gray-700'}`}
+                           >
+                             {hand ? `${hand[0]}:` : ''}{ACTION_INFO[action].chip}
+                           </div>
+                         ))}
+                    </div>
+
+                    {/* Gallery layout picker */}
+                    <div className="mt-2 flex gap-2 pointer-events-auto">
+                         {GALLERY_LAYOUTS.map(({ id, label }) => (
+                           <button
+                             key={id}
+                             onClick={() => setGalleryLayout(id)}
+                             className={`px-2 py-0.5 text-[10px] rounded border uppercase transition-colors ${galleryLayout === id ? 'border-pink-400 text-pink-300 bg-pink-900/30' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                           >
+                             {label}
+                           </button>
+                         ))}
+                    </div>
+
+                    {/* Galaxy formation picker */}
+                    <div className="mt-2 flex flex-wrap gap-2 max-w-xs pointer-events-auto">
+                         {FORMATIONS.map(({ id, label }) => (
+                           <button
+                             key={id}
+                             onClick={() => setFormation(id)}
+                             className={`px-2 py-0.5 text-[10px] rounded border uppercase transition-colors ${formation === id ? 'border-purple-400 text-purple-300 bg-purple-900/30' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+                           >
+                             {label}
+                           </button>
+                         ))}
                     </div>
                 </div>
             </div>
 
+            <TreeControls
+              seed={seed}
+              onNewSeed={() => setSeed(randomSeed())}
+              presets={treePresets}
+              preset={treePreset}
+              onSelect={handleTreeSelect}
+              onLoad={handleTreePresetsLoaded}
+            />
+
+            {tuningOpen && (
+              <TuningPanel
+                key={treePreset.id}
+                preset={treePreset}
+                tuning={tuning ?? { params: treePreset.params, shader: treePreset.shader }}
+                onChange={setTuning}
+                onReset={() => setTuning(null)}
+                onClose={() => setTuningOpen(false)}
+              />
+            )}
+
             <div className="absolute bottom-8 left-0 right-0 text-center pointer-events-none opacity-40">
               <span className="text-white font-thin tracking-[1em] text-[10px] uppercase">
                 Gesture Controlled Environment
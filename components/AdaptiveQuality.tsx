@@ -0,0 +1,22 @@
+import React, { useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { QualityGovernor, QualityTier } from '../utils/quality';
+
+interface AdaptiveQualityProps {
+  tier: QualityTier; // Where the governor starts
+  onChange: (tier: QualityTier) => void;
+}
+
+// Steps the quality tier down or up from measured frame times; renders nothing
+const AdaptiveQuality: React.FC<AdaptiveQualityProps> = ({ tier, onChange }) => {
+  const [governor] = useState(() => new QualityGovernor(tier));
+
+  useFrame((_, delta) => {
+    const next = governor.update(delta);
+    if (next) onChange(next);
+  });
+
+  return null;
+};
+
+export default AdaptiveQuality;
@@ -0,0 +1,153 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CameraSettings, cameraAspect } from '../utils/cameraCapture';
+import { Calibration, CalibrationSamples, deriveCalibration, sampleHand } from '../utils/calibration';
+import { RawHand } from '../utils/handPipeline';
+import HandTracker from './HandTracker';
+
+interface CalibrationWizardProps {
+  profile: string;
+  camera: CameraSettings;
+  onComplete: (calibration: Calibration) => void;
+  onSkip: () => void;
+  onUnavailable: (reason: string, cause: 'camera' | 'model') => void;
+}
+
+type StepId = keyof CalibrationSamples;
+
+interface Step {
+  id: StepId;
+  icon: string;
+  title: string;
+  hint: string;
+  collectMs: number; // With a hand in view, after the settle time
+}
+
+const STEPS: Step[] = [
+  { id: 'open', icon: '🖐️', title: 'Open Hand', hint: 'Hold up an open hand, fingers spread, where it rests comfortably', collectMs: 1500 },
+  { id: 'fist', icon: '✊', title: 'Fist', hint: 'Now close it into a fist, in the same place', collectMs: 1500 },
+  { id: 'reach', icon: '↔️', title: 'Reach', hint: 'Open your hand and trace the edges of where you can comfortably reach', collectMs: 5000 },
+];
+
+// Time to get into each pose before its frames count
+const SETTLE_MS = 800;
+
+const noop = () => {};
+
+// Open hand, fist, then comfortable reach; each step collects while a hand is in view
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ profile, camera, onComplete, onSkip, onUnavailable }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [handSeen, setHandSeen] = useState(false);
+  const [result, setResult] = useState<Calibration | null>(null);
+
+  const samplesRef = useRef<CalibrationSamples>({ open: [], fist: [], reach: [] });
+  const stepRef = useRef({ index: 0, startedAt: -1, collectedMs: 0, lastAt: -1 });
+  const aspect = cameraAspect(camera);
+
+  const handleHands = useCallback((hands: RawHand[], now: number) => {
+    const state = stepRef.current;
+    const step = STEPS[state.index];
+    if (!step) return;
+
+    const hand = hands[0];
+    setHandSeen(Boolean(hand));
+    if (!hand) {
+      state.lastAt = -1; // Time without a hand doesn't count
+      return;
+    }
+    if (state.startedAt < 0) state.startedAt = now;
+    if (now - state.startedAt < SETTLE_MS) return;
+
+    const sample = sampleHand(hand, aspect);
+    if (step.id === 'reach') samplesRef.current.reach.push(sample.palm);
+    else samplesRef.current[step.id].push(sample);
+
+    if (state.lastAt >= 0) state.collectedMs += now - state.lastAt;
+    state.lastAt = now;
+    setProgress(Math.min(1, state.collectedMs / step.collectMs));
+
+    if (state.collectedMs >= step.collectMs) {
+      const next = state.index + 1;
+      stepRef.current = { index: next, startedAt: -1, collectedMs: 0, lastAt: -1 };
+      setStepIndex(next);
+      setProgress(0);
+      if (next === STEPS.length) setResult(deriveCalibration(samplesRef.current));
+    }
+  }, [aspect]);
+
+  const restart = () => {
+    samplesRef.current = { open: [], fist: [], reach: [] };
+    stepRef.current = { index: 0, startedAt: -1, collectedMs: 0, lastAt: -1 };
+    setStepIndex(0);
+    setProgress(0);
+    setResult(null);
+  };
+
+  // Escape skips, as the button does
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onSkip();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onSkip]);
+
+  const step = STEPS[stepIndex];
+
+  return (
+    <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/90 text-white font-light">
+      {!result && <HandTracker onUpdate={noop} onHands={handleHands} onUnavailable={onUnavailable} camera={camera} />}
+
+      <div className="text-xs text-pink-400 uppercase tracking-widest opacity-80 mb-2">Calibrating · {profile}</div>
+
+      {step ? (
+        <>
+          <div className="text-6xl mb-4">{step.icon}</div>
+          <h2 className="text-3xl tracking-[0.2em] uppercase text-pink-200 mb-3">{step.title}</h2>
+          <p className="text-gray-400 mb-8 text-center max-w-md px-6">{step.hint}</p>
+          <div className="w-64 h-1 rounded bg-gray-800 overflow-hidden mb-3">
+            <div className="h-full bg-pink-300 transition-[width] duration-100" style={{ width: `${progress * 100}%` }} />
+          </div>
+          <div className={`text-xs tracking-widest uppercase ${handSeen ? 'text-green-300' : 'text-gray-500'}`}>
+            {handSeen ? 'Hand found' : 'Show your hand to the camera'}
+          </div>
+          <div className="flex gap-2 mt-8">
+            {STEPS.map((s, i) => (
+              <div key={s.id} className={`w-2 h-2 rounded-full ${i < stepIndex ? 'bg-pink-300' : i === stepIndex ? 'bg-pink-500 animate-pulse' : 'bg-gray-700'}`} />
+            ))}
+          </div>
+        </>
+      ) : result && (
+        <>
+          <h2 className="text-3xl tracking-[0.2em] uppercase text-pink-200 mb-6">Calibrated</h2>
+          <div className="grid grid-cols-2 gap-x-8 gap-y-1 text-sm text-gray-400 font-mono mb-8">
+            <span>Finger bend</span><span className="text-pink-200">{result.pose.fingerBendDeg.toFixed(0)}°</span>
+            <span>Thumb bend / reach</span><span className="text-pink-200">{result.pose.thumbBendDeg.toFixed(0)}° / {result.pose.thumbReach.toFixed(2)}</span>
+            <span>Centre</span><span className="text-pink-200">{result.center.x.toFixed(2)}, {result.center.y.toFixed(2)}</span>
+            <span>Reach</span>
+            <span className="text-pink-200">
+              {result.reach.left.toFixed(2)}–{result.reach.right.toFixed(2)} × {result.reach.top.toFixed(2)}–{result.reach.bottom.toFixed(2)}
+            </span>
+            <span>Dead zone / smoothing</span><span className="text-pink-200">{result.deadZone.toFixed(2)} / {result.smoothing.toFixed(2)}</span>
+            <span>Resting palm size</span><span className="text-pink-200">{result.restPalmSize?.toFixed(2) ?? '—'}</span>
+          </div>
+          <button
+            onClick={() => onComplete(result)}
+            className="px-10 py-4 border border-pink-500/50 rounded-full text-pink-100 hover:bg-pink-900/20 hover:scale-105 transition-all tracking-widest uppercase text-sm shadow-[0_0_20px_rgba(255,183,197,0.2)]"
+          >
+            Save & Start
+          </button>
+          <button onClick={restart} className="mt-4 text-xs text-gray-500 hover:text-pink-200 tracking-widest uppercase transition-colors">
+            Calibrate Again
+          </button>
+        </>
+      )}
+
+      <button onClick={onSkip} className="absolute bottom-8 text-xs text-gray-500 hover:text-pink-200 tracking-widest uppercase transition-colors">
+        Skip Calibration
+      </button>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
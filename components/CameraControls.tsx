@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { CameraSettings, FRAME_RATES, RESOLUTIONS, listCameras } from '../utils/cameraCapture';
+
+interface CameraControlsProps {
+  settings: CameraSettings;
+  onChange: (settings: CameraSettings) => void;
+}
+
+const SELECT = "bg-transparent px-1 py-0.5 rounded border border-gray-700 hover:border-pink-400 text-gray-300 uppercase tracking-widest outline-none max-w-[12rem]";
+
+// Which camera to track with, at what resolution and frame rate
+const CameraControls: React.FC<CameraControlsProps> = ({ settings, onChange }) => {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+
+  // Refresh when cameras come and go, and on open: names only appear once permission is granted
+  const refresh = () => {
+    listCameras().then(setCameras).catch((e) => console.warn('Could not list cameras:', e));
+  };
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  const remembered = settings.deviceId !== null && !cameras.some((camera) => camera.deviceId === settings.deviceId);
+
+  return (
+    <div className="absolute bottom-[5.5rem] left-6 z-40 flex items-center gap-2 font-mono text-[10px] text-gray-400 select-none">
+      <span className="tracking-widest uppercase opacity-60">Camera</span>
+      <select
+        value={settings.deviceId ?? ''}
+        onFocus={refresh}
+        onChange={(e) => onChange({ ...settings, deviceId: e.target.value || null })}
+        className={SELECT}
+      >
+        <option value="" className="bg-gray-900">Default</option>
+        {cameras.map((camera, i) => (
+          <option key={camera.deviceId} value={camera.deviceId} className="bg-gray-900">
+            {camera.label || `Camera ${i + 1}`}
+          </option>
+        ))}
+        {remembered && <option value={settings.deviceId!} className="bg-gray-900">Saved camera (not connected)</option>}
+      </select>
+      <select
+        value={`${settings.width}x${settings.height}`}
+        onChange={(e) => {
+          const [width, height] = e.target.value.split('x').map(Number);
+          onChange({ ...settings, width, height });
+        }}
+        className={SELECT}
+      >
+        {RESOLUTIONS.map(({ width, height }) => (
+          <option key={width} value={`${width}x${height}`} className="bg-gray-900">{width}×{height}</option>
+        ))}
+      </select>
+      <select
+        value={settings.frameRate}
+        onChange={(e) => onChange({ ...settings, frameRate: Number(e.target.value) })}
+        className={SELECT}
+      >
+        {FRAME_RATES.map((rate) => (
+          <option key={rate} value={rate} className="bg-gray-900">{rate} fps</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default CameraControls;
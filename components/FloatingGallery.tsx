@@ -1,114 +1,338 @@
 
-import React, { useRef, useMemo, useState, useEffect } from 'react';
+import React, { useRef, useMemo, useState, useEffect, useCallback } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { PhotoData } from '../types';
+import { GalaxyOrbit, PhotoData, ShaderTuning } from '../types';
+import { POLAROID_HANG_OFFSET } from '../utils/geometry';
+import { addGustLean, sampleTreeWind } from '../utils/wind';
+import { PHOTO_OFFSET_Y, fitPhoto, frameFor } from '../utils/polaroid';
+import { GalleryLayoutId, computeLayoutTarget, createLayoutTarget } from '../utils/galleryLayouts';
+import { FormationMorph, formationBlend } from '../utils/formations';
+import PhotoCaption, { hasCaption } from './PhotoCaption';
+
+// Layout blend shared by every polaroid: from -> to over `progress` 0..1
+interface LayoutTransition {
+  from: GalleryLayoutId;
+  to: GalleryLayoutId;
+  progress: number;
+}
+
+const LAYOUT_TRANSITION_SECONDS = 1.2;
+
+const UP = new THREE.Vector3(0, 1, 0);
+const GRABBED_SCALE = 0.8;
+
+// Shared between the polaroids and the pinch cursor that picks them up
+export interface PolaroidPicking {
+  groups: (THREE.Group | null)[]; // Registered by each polaroid, for raycasting
+  grabbed: number | null; // Index of the polaroid held by the cursor
+  grabPoint: THREE.Vector3; // Where the held polaroid should be (world)
+  dropped: Map<number, THREE.Vector3>; // Let go away from their branch; they stay put until the tree changes state
+}
+
+export const createPolaroidPicking = (): PolaroidPicking => ({
+  groups: [],
+  grabbed: null,
+  grabPoint: new THREE.Vector3(),
+  dropped: new Map(),
+});
+
+// Pendulum tuning: gravity over string length sets the period, drag couples it to the wind
+const SWING_GRAVITY = 20.0;
+const SWING_DAMPING = 0.8;
+const SWING_WIND_DRAG = 12.0;
 
 interface FloatingGalleryProps {
   photos: PhotoData[];
   expansionRef: React.MutableRefObject<number>;
+  spinRef: React.MutableRefObject<number>; // Galaxy spin, so the photos turn with the particles
+  formationRef: React.MutableRefObject<FormationMorph>; // ...and morph with them between formations
+  orbitRef: React.MutableRefObject<GalaxyOrbit>;
+  gustRef: React.MutableRefObject<THREE.Vector3>; // Gust lean, so the photos blow with their branch
+  tuningRef: React.MutableRefObject<ShaderTuning>; // Sway amplitude, so the strings stay on their tips
+  pickingRef: React.MutableRefObject<PolaroidPicking>;
   isRevealed: boolean;
+  layout: GalleryLayoutId;
 }
 
-const Polaroid: React.FC<{ data: PhotoData; expansionRef: React.MutableRefObject<number>; isRevealed: boolean; index: number; total: number }> = ({ data, expansionRef, isRevealed, index, total }) => {
+interface PolaroidProps {
+  data: PhotoData;
+  expansionRef: React.MutableRefObject<number>;
+  spinRef: React.MutableRefObject<number>;
+  formationRef: React.MutableRefObject<FormationMorph>;
+  orbitRef: React.MutableRefObject<GalaxyOrbit>;
+  gustRef: React.MutableRefObject<THREE.Vector3>;
+  tuningRef: React.MutableRefObject<ShaderTuning>;
+  pickingRef: React.MutableRefObject<PolaroidPicking>;
+  isRevealed: boolean;
+  index: number;
+  total: number;
+  isFocused: boolean;
+  layoutRef: React.MutableRefObject<LayoutTransition>;
+  registerGroup: (index: number, group: THREE.Group | null) => void;
+}
+
+const Polaroid: React.FC<PolaroidProps> = ({ data, expansionRef, spinRef, formationRef, orbitRef, gustRef, tuningRef, pickingRef, isRevealed, index, total, isFocused, layoutRef, registerGroup }) => {
   const meshRef = useRef<THREE.Group>(null);
+
+  // Lets the gallery find the photo nearest the screen centre
+  useEffect(() => {
+    registerGroup(index, meshRef.current);
+    return () => registerGroup(index, null);
+  }, [index, registerGroup]);
   const [texture, setTexture] = useState<THREE.Texture | null>(null);
+  const [aspect, setAspect] = useState(data.aspect ?? 3 / 4);
   const { camera } = useThree();
 
+  // Works for remote, relative, blob: and data: URLs alike
   useEffect(() => {
+    let cancelled = false;
+    let loaded: THREE.Texture | null = null;
     const loader = new THREE.TextureLoader();
     loader.setCrossOrigin('anonymous');
     loader.load(data.url, (tex) => {
+        if (cancelled) {
+            tex.dispose();
+            return;
+        }
+        loaded = tex;
         tex.colorSpace = THREE.SRGBColorSpace;
+        const image = tex.image as { width?: number; height?: number } | undefined;
+        if (image?.width && image?.height) setAspect(image.width / image.height);
         setTexture(tex);
     });
+    return () => {
+        cancelled = true;
+        loaded?.dispose();
+    };
   }, [data.url]);
 
-  const randomOffset = useMemo(() => Math.random() * 100, []);
+  const photoSize = useMemo(() => fitPhoto(aspect), [aspect]);
+  const frameSize = frameFor(photoSize);
+
+  // Derived from the id so a seeded gallery also floats identically
+  const randomOffset = useMemo(() => (data.id * 37.7) % 100, [data.id]);
+
+  // Pendulum state: angle of the string toward +X / +Z and angular velocities
+  const swing = useRef({ x: 0, z: 0, vx: 0, vz: 0 });
+  const settleRef = useRef(1); // 1 once the photo has returned to its branch
+  const prevWind = useRef<THREE.Vector3 | null>(null);
+
+  const temp = useMemo(() => ({
+    wind: new THREE.Vector3(),
+    windVel: new THREE.Vector3(),
+    anchor: new THREE.Vector3(),
+    hang: new THREE.Vector3(),
+    eyelet: new THREE.Vector3(),
+    targetPos: new THREE.Vector3(),
+    targetQuat: new THREE.Quaternion(),
+    euler: new THREE.Euler(),
+    spin: new THREE.Quaternion(),
+    layoutFrom: createLayoutTarget(),
+    layoutTo: createLayoutTarget(),
+  }), []);
+
+  // Hanging string from the branch tip to the top of the frame
+  const stringLine = useMemo(() => {
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(6), 3));
+    const mat = new THREE.LineBasicMaterial({ color: '#e8d8c8', transparent: true, opacity: 0, depthWrite: false });
+    const line = new THREE.Line(geo, mat);
+    line.frustumCulled = false;
+    return line;
+  }, []);
+
+  useEffect(() => () => {
+    stringLine.geometry.dispose();
+    (stringLine.material as THREE.Material).dispose();
+  }, [stringLine]);
   
   useFrame((state, delta) => {
     if (!meshRef.current) return;
     
-    let targetPos = new THREE.Vector3();
-    let targetRot = new THREE.Euler();
+    const targetPos = temp.targetPos;
+    const targetQuat = temp.targetQuat;
     let targetScale = 0.3; 
     
     // Derived state from expansion ref
     const isExploded = expansionRef.current > 0.5;
+    const picking = pickingRef.current;
+    const isGrabbed = picking.grabbed === index;
+    // Leaving the tree state sends dropped photos home
+    if (isRevealed || isExploded) picking.dropped.delete(index);
+    const droppedAt = picking.dropped.get(index);
+    const isHanging = !isRevealed && !isExploded && !isGrabbed && !droppedAt;
 
-    if (isRevealed) {
-        // ACTIVE STATE: Form a gallery in front of camera
-        const radius = 35;
-        // Spread evenly in view
-        const angleStep = 0.4; 
-        const centerOffset = (total * angleStep) / 2;
-        const currentAngle = index * angleStep - centerOffset;
-        
-        // Calculate position relative to camera but pushed forward in world space
-        // For simplicity, we orbit the world center but orient to camera
-        targetPos.set(
-            Math.sin(currentAngle) * radius,
-            (index % 2 === 0 ? 1 : -1) * 3, // Zig zag height
-            Math.cos(currentAngle) * radius + 20 
-        );
-        
-        // Face the camera
-        const dummy = new THREE.Object3D();
-        dummy.position.copy(targetPos);
-        dummy.lookAt(camera.position); // Look at camera
-        targetRot = dummy.rotation;
-
-        targetScale = 2.5; 
+    // --- WIND-DRIVEN PENDULUM ---
+    // The anchor follows the same sway and gusts as the blossoms; the air velocity pushes the string
+    const dt = Math.min(delta, 0.05);
+    sampleTreeWind(data.anchor, state.clock.elapsedTime, temp.wind, tuningRef.current.windAmplitude);
+    addGustLean(data.anchor, gustRef.current, temp.wind);
+    temp.anchor.copy(data.anchor).add(temp.wind);
+
+    if (prevWind.current && dt > 0) {
+        temp.windVel.copy(temp.wind).sub(prevWind.current).divideScalar(dt);
+    } else {
+        prevWind.current = new THREE.Vector3();
+        temp.windVel.set(0, 0, 0);
+    }
+    prevWind.current.copy(temp.wind);
+
+    const s = swing.current;
+    const restoring = SWING_GRAVITY / data.stringLength;
+    const drag = SWING_WIND_DRAG / data.stringLength;
+    s.vx += (-restoring * Math.sin(s.x) - SWING_DAMPING * s.vx + drag * temp.windVel.x) * dt;
+    s.vz += (-restoring * Math.sin(s.z) - SWING_DAMPING * s.vz + drag * temp.windVel.z) * dt;
+    s.x += s.vx * dt;
+    s.z += s.vz * dt;
+
+    if (isGrabbed) {
+        // HELD BY THE CURSOR: Follow it, facing the viewer
+        targetPos.copy(picking.grabPoint);
+        targetQuat.copy(camera.quaternion);
+        targetScale = GRABBED_SCALE;
+    } else if (droppedAt) {
+        // DROPPED: Rest where it was let go, upright
+        targetPos.copy(droppedAt);
+        targetQuat.setFromEuler(temp.euler.set(0, data.rotation.y, 0));
+        targetScale = 0.3;
+    } else if (isRevealed) {
+        // ACTIVE STATE: Form the selected layout in front of the camera, blending from the previous one
+        const transition = layoutRef.current;
+        computeLayoutTarget(transition.to, index, total, camera, temp.layoutTo);
+        if (transition.progress < 1) {
+            computeLayoutTarget(transition.from, index, total, camera, temp.layoutFrom);
+            const t = THREE.MathUtils.smoothstep(transition.progress, 0, 1);
+            temp.layoutTo.position.lerpVectors(temp.layoutFrom.position, temp.layoutTo.position, t);
+            temp.layoutTo.quaternion.slerpQuaternions(temp.layoutFrom.quaternion, temp.layoutTo.quaternion, t);
+            temp.layoutTo.scale = THREE.MathUtils.lerp(temp.layoutFrom.scale, temp.layoutTo.scale, t);
+        }
+        targetPos.copy(temp.layoutTo.position);
+        targetQuat.copy(temp.layoutTo.quaternion);
+        targetScale = temp.layoutTo.scale;
     } else if (isExploded) {
-        // GALAXY STATE: Float in target space
-        targetPos.copy(data.targetSpacePos);
-        targetRot.copy(data.targetSpaceRot);
+        // GALAXY STATE: Float in the formation, turned with the galaxy (the shader spins +x toward +z).
+        // They turn with the rigid part of the orbit and stay out of the differential swirl, as they always have
+        const morph = formationRef.current;
+        temp.spin.setFromAxisAngle(UP, -(spinRef.current + orbitRef.current.rigid));
+        targetPos.lerpVectors(data.targetSpacePos[morph.from], data.targetSpacePos[morph.to], formationBlend(morph)).applyQuaternion(temp.spin);
+        targetQuat.setFromEuler(data.targetSpaceRot).premultiply(temp.spin);
         targetScale = 0.5;
     } else {
-        // TREE STATE: Hang on branches
-        targetPos.copy(data.position);
-        targetRot.copy(data.rotation);
+        // TREE STATE: Hang from the swaying branch tip at the end of the string
+        temp.hang.set(Math.tan(s.x), -1, Math.tan(s.z)).normalize();
+        targetPos.copy(temp.anchor).addScaledVector(temp.hang, data.stringLength + POLAROID_HANG_OFFSET);
+        targetQuat.setFromEuler(temp.euler.set(data.rotation.x + s.z, data.rotation.y, data.rotation.z - s.x));
         targetScale = 0.3;
     }
 
-    const lerpSpeed = isRevealed ? 3.0 : 1.5;
+    // Ease back onto the branch, then track the swing tightly so the string never stretches
+    settleRef.current = isHanging ? Math.min(1, settleRef.current + delta * 0.4) : 0;
+    const lerpSpeed = isGrabbed ? 14.0 : isRevealed ? 3.0 : THREE.MathUtils.lerp(1.5, 12.0, settleRef.current * settleRef.current);
     
-    // Float animation
+    // Float animation (the string replaces it while hanging)
     const time = state.clock.elapsedTime + randomOffset;
-    const floatY = Math.sin(time * (isRevealed ? 1.0 : 0.5)) * (isRevealed ? 0.5 : 0.2);
+    const floatY = isHanging || isGrabbed ? 0 : Math.sin(time * (isRevealed ? 1.0 : 0.5)) * (isRevealed ? 0.5 : 0.2);
     
     meshRef.current.position.lerp(
         new THREE.Vector3(targetPos.x, targetPos.y + floatY, targetPos.z), 
-        delta * lerpSpeed
+        Math.min(1, delta * lerpSpeed)
     );
 
-    meshRef.current.rotation.x = THREE.MathUtils.lerp(meshRef.current.rotation.x, targetRot.x, delta * lerpSpeed);
-    meshRef.current.rotation.y = THREE.MathUtils.lerp(meshRef.current.rotation.y, targetRot.y, delta * lerpSpeed);
-    meshRef.current.rotation.z = THREE.MathUtils.lerp(meshRef.current.rotation.z, targetRot.z, delta * lerpSpeed);
+    meshRef.current.quaternion.slerp(targetQuat, Math.min(1, delta * lerpSpeed));
     
     const currentScale = meshRef.current.scale.x;
-    meshRef.current.scale.setScalar(THREE.MathUtils.lerp(currentScale, targetScale, delta * 2));
+    meshRef.current.scale.setScalar(THREE.MathUtils.lerp(currentScale, targetScale, Math.min(1, delta * (isGrabbed ? 8 : 2))));
+
+    // --- STRING ---
+    meshRef.current.updateMatrixWorld();
+    meshRef.current.localToWorld(temp.eyelet.set(0, frameSize.height / 2, 0));
+    const positions = stringLine.geometry.attributes.position as THREE.BufferAttribute;
+    positions.setXYZ(0, temp.anchor.x, temp.anchor.y, temp.anchor.z);
+    positions.setXYZ(1, temp.eyelet.x, temp.eyelet.y, temp.eyelet.z);
+    positions.needsUpdate = true;
+
+    // Only visible while hanging; fades with the tree <-> galaxy transition
+    const material = stringLine.material as THREE.LineBasicMaterial;
+    const targetOpacity = !isHanging ? 0 : 0.6 * (1 - expansionRef.current) * settleRef.current;
+    material.opacity = THREE.MathUtils.lerp(material.opacity, targetOpacity, Math.min(1, delta * 4));
+    stringLine.visible = material.opacity > 0.01;
   });
 
   return (
-    <group ref={meshRef} position={data.position} rotation={data.rotation} scale={0.3}>
-      <mesh position={[0, 0, -0.05]}>
-        <boxGeometry args={[6, 7.5, 0.1]} />
-        <meshStandardMaterial color="#ffffff" roughness={0.4} />
-      </mesh>
-      <mesh position={[0, 0.5, 0.05]}>
-        <planeGeometry args={[5, 5]} />
-        {texture ? (
-           <meshBasicMaterial map={texture} toneMapped={false} />
-        ) : (
-           <meshBasicMaterial color="#333" />
+    <>
+      <primitive object={stringLine} />
+      <group ref={meshRef} position={data.position} rotation={data.rotation} scale={0.3}>
+        <mesh position={[0, 0, -0.05]}>
+          <boxGeometry args={[frameSize.width, frameSize.height, 0.1]} />
+          <meshStandardMaterial color="#ffffff" roughness={0.4} />
+        </mesh>
+        <mesh position={[0, PHOTO_OFFSET_Y, 0.05]}>
+          <planeGeometry args={[photoSize.width, photoSize.height]} />
+          {texture ? (
+             <meshBasicMaterial map={texture} toneMapped={false} />
+          ) : (
+             <meshBasicMaterial color="#333" />
+          )}
+        </mesh>
+        {hasCaption(data) && (
+          <PhotoCaption
+            meta={data}
+            visible={isRevealed && isFocused}
+            position={[0, -frameSize.height / 2 - 1.2, 0]}
+          />
         )}
-      </mesh>
-    </group>
+      </group>
+    </>
   );
 };
 
-const FloatingGallery: React.FC<FloatingGalleryProps> = ({ photos, expansionRef, isRevealed }) => {
+const FloatingGallery: React.FC<FloatingGalleryProps> = ({ photos, expansionRef, spinRef, formationRef, orbitRef, gustRef, tuningRef, pickingRef, isRevealed, layout }) => {
+  const layoutRef = useRef<LayoutTransition>({ from: layout, to: layout, progress: 1 });
+
+  // Animate from wherever the previous layout was heading
+  useEffect(() => {
+    if (layoutRef.current.to === layout) return;
+    layoutRef.current = { from: layoutRef.current.to, to: layout, progress: 0 };
+  }, [layout]);
+  const focusedRef = useRef<number | null>(null);
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const projected = useMemo(() => new THREE.Vector3(), []);
+
+  const registerGroup = useCallback((index: number, group: THREE.Group | null) => {
+    pickingRef.current.groups[index] = group;
+  }, []);
+
+  useFrame(({ camera }, delta) => {
+    const transition = layoutRef.current;
+    if (transition.progress < 1) {
+        transition.progress = Math.min(1, transition.progress + delta / LAYOUT_TRANSITION_SECONDS);
+    }
+
+    // In the reveal layout, the photo nearest the screen centre gets its caption
+    let nearest: number | null = null;
+
+    if (isRevealed) {
+        let bestDistance = Infinity;
+        pickingRef.current.groups.forEach((group, i) => {
+            if (!group || i >= photos.length) return;
+            group.getWorldPosition(projected).project(camera);
+            if (projected.z > 1) return; // Behind the camera
+            const distance = Math.hypot(projected.x, projected.y);
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                nearest = i;
+            }
+        });
+    }
+
+    // Only touch React state when the focus actually moves
+    if (nearest !== focusedRef.current) {
+        focusedRef.current = nearest;
+        setFocusedIndex(nearest);
+    }
+  });
+
   return (
     <group>
       {photos.map((photo, i) => (
@@ -118,7 +342,16 @@ const FloatingGallery: React.FC<FloatingGalleryProps> = ({ photos, expansionRef,
             total={photos.length}
             data={photo} 
             expansionRef={expansionRef}
+            spinRef={spinRef}
+            formationRef={formationRef}
+            orbitRef={orbitRef}
+            gustRef={gustRef}
+            tuningRef={tuningRef}
+            pickingRef={pickingRef}
             isRevealed={isRevealed} 
+            isFocused={focusedIndex === i}
+            layoutRef={layoutRef}
+            registerGroup={registerGroup}
         />
       ))}
     </group>
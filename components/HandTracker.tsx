@@ -1,188 +1,179 @@
 
 import React, { useEffect, useRef, useState } from 'react';
+import { HandUpdate, Handedness, MotionEvent } from '../types';
+import { GestureEvent } from '../utils/gestureRecognizer';
+import { CameraCapture, CameraSettings, DEFAULT_CAMERA_SETTINGS, cameraAspect } from '../utils/cameraCapture';
+import { HAND_CONNECTIONS, acquireHandLandmarker, readHandLandmarkerResult } from '../utils/handLandmarker';
+import { Detection, HandPipeline, HandPipelineOptions, PipelineOutput, RawHand } from '../utils/handPipeline';
+import { SessionPlayer, SessionRecorder } from '../utils/sessionRecording';
+
+const SKELETON_COLORS: Record<Handedness, string> = {
+  Left: 'rgba(183, 197, 255, 0.5)',
+  Right: 'rgba(255, 183, 197, 0.5)',
+};
 
 interface HandTrackerProps {
-  onUpdate: (data: {
-    fingerCount: number;
-    gesture: string;
-    position: { x: number; y: number };
-    isTracking: boolean;
-  }) => void;
+  onUpdate: (data: HandUpdate) => void;
+  onMotion?: (event: MotionEvent, hand: Handedness) => void;
+  onGestureStart?: (event: GestureEvent, hand: Handedness) => void;
+  onGestureHold?: (event: GestureEvent, hand: Handedness) => void;
+  onGestureEnd?: (event: GestureEvent, hand: Handedness) => void;
+  onUnavailable?: (reason: string, cause: 'camera' | 'model') => void; // Camera or hand model couldn't start
+  recorder?: SessionRecorder; // Captures every landmark result while it is recording
+  player?: SessionPlayer | null; // Replays a recording instead of using the camera
+  camera?: CameraSettings;
+  pipelineOptions?: Partial<HandPipelineOptions>; // Calibrated thresholds and smoothing
+  onHands?: (hands: RawHand[], now: number) => void; // The raw landmarks of every frame, for calibration
 }
 
-const HandTracker: React.FC<HandTrackerProps> = ({ onUpdate }) => {
+const HandTracker: React.FC<HandTrackerProps> = ({ onUpdate, onMotion, onGestureStart, onGestureHold, onGestureEnd, onUnavailable, recorder, player, camera = DEFAULT_CAMERA_SETTINGS, pipelineOptions, onHands }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [status, setStatus] = useState("Initializing...");
-  const smoothedPos = useRef({ x: 0.5, y: 0.5 });
-  const stableGesture = useRef("NONE");
-  const pendingGesture = useRef("NONE");
-  const gestureFrames = useRef(0);
 
   useEffect(() => {
     if (!videoRef.current || !canvasRef.current) return;
 
-    // Access globals loaded via CDN in index.html
-    const Hands = (window as any).Hands;
-    const Camera = (window as any).Camera;
-    const drawConnectors = (window as any).drawConnectors;
-    const drawLandmarks = (window as any).drawLandmarks;
-    const HAND_CONNECTIONS = (window as any).HAND_CONNECTIONS;
-
-    if (!Hands || !Camera) {
-      setStatus("Error: MediaPipe Libraries not found");
-      return;
-    }
-
-    const hands = new Hands({
-      locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`
-    });
-
-    hands.setOptions({
-      maxNumHands: 1,
-      modelComplexity: 1,
-      minDetectionConfidence: 0.7,
-      minTrackingConfidence: 0.7
-    });
+    const pipeline = new HandPipeline(player?.recording.aspect ?? cameraAspect(camera), pipelineOptions);
 
-    // Robust Finger Counter: Check if Tip is "above" PIP (Knuckle) in screen space 
-    // Note: Y is 0 at top, 1 at bottom. So "Up" means Tip.y < Pip.y
-    const isFingerUp = (landmarks: any[], tipIdx: number, pipIdx: number) => {
-      // Calculate vector from wrist to PIP to determine hand orientation roughly
-      // But simple Y check usually works for "Hand Up" pose
-      return landmarks[tipIdx].y < landmarks[pipIdx].y;
+    const dispatch = (output: PipelineOutput) => {
+      output.gestureEvents.forEach(({ event, hand }) => {
+        if (event.type === 'start') onGestureStart?.(event, hand);
+        else if (event.type === 'hold') onGestureHold?.(event, hand);
+        else onGestureEnd?.(event, hand);
+      });
+      output.motionEvents.forEach(({ event, hand }) => onMotion?.(event, hand));
+      onUpdate(output.update);
     };
 
-    hands.onResults((results: any) => {
+    const drawSkeletons = (detections: Detection[]) => {
       const canvas = canvasRef.current;
       const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      ctx.save();
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      // Draw image mirrored for natural feel
+      ctx.scale(-1, 1);
+      ctx.translate(-canvas.width, 0);
+
+      detections.forEach(({ landmarks, handedness }) => {
+        ctx.strokeStyle = SKELETON_COLORS[handedness];
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        HAND_CONNECTIONS.forEach(([from, to]) => {
+          ctx.moveTo(landmarks[from].x * canvas.width, landmarks[from].y * canvas.height);
+          ctx.lineTo(landmarks[to].x * canvas.width, landmarks[to].y * canvas.height);
+        });
+        ctx.stroke();
+
+        ctx.fillStyle = '#ffffff';
+        landmarks.forEach(({ x, y }) => {
+          ctx.beginPath();
+          ctx.arc(x * canvas.width, y * canvas.height, 2, 0, Math.PI * 2);
+          ctx.fill();
+        });
+      });
+      ctx.restore();
+    };
 
-      if (canvas && ctx) {
-        ctx.save();
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        // Draw image mirrored for natural feel
-        ctx.scale(-1, 1);
-        ctx.translate(-canvas.width, 0);
-        
-        // Draw skeleton
-        if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-          const landmarks = results.multiHandLandmarks[0];
-
-          if (drawConnectors && drawLandmarks) {
-             drawConnectors(ctx, landmarks, HAND_CONNECTIONS, { color: 'rgba(255, 183, 197, 0.5)', lineWidth: 2 });
-             drawLandmarks(ctx, landmarks, { color: '#ffffff', lineWidth: 1, radius: 2 });
-          }
-
-          // --- ROBUST FINGER COUNTING ---
-          
-          // Thumb: Check Angle/Distance. 
-          // We check if Thumb Tip (4) is far from Pinky Knuckle (17) 
-          // This indicates an "Open" thumb relative to palm
-          const thumbTip = landmarks[4];
-          const pinkyKnuckle = landmarks[17];
-          const distance = Math.hypot(thumbTip.x - pinkyKnuckle.x, thumbTip.y - pinkyKnuckle.y);
-          const thumbOpen = distance > 0.25; // Threshold based on normalized coords
-
-          // Other Fingers: Tip vs PIP (Knuckle) Y-level
-          const indexUp = isFingerUp(landmarks, 8, 6);
-          const middleUp = isFingerUp(landmarks, 12, 10);
-          const ringUp = isFingerUp(landmarks, 16, 14);
-          const pinkyUp = isFingerUp(landmarks, 20, 18);
-
-          let count = 0;
-          if (thumbOpen) count++;
-          if (indexUp) count++;
-          if (middleUp) count++;
-          if (ringUp) count++;
-          if (pinkyUp) count++;
-
-          // --- GESTURE MAPPING ---
-          let rawGesture = "UNKNOWN";
-
-          if (count === 0) {
-            rawGesture = "FIST"; // REFORM TREE
-          } else if (count === 5) {
-            rawGesture = "OPEN_HAND"; // DISPERSE GALAXY
-          } else if (count === 1 && indexUp) {
-            rawGesture = "ONE_FINGER"; // CYCLE COLORS
-          } else if (count === 2 && indexUp && middleUp) {
-            rawGesture = "TWO_FINGERS"; // REVEAL PHOTOS
-          } else {
-            rawGesture = `COUNT_${count}`;
-          }
-
-          // Gesture smoothing: require two consecutive frames before switching
-          if (rawGesture === pendingGesture.current) {
-            gestureFrames.current += 1;
-          } else {
-            pendingGesture.current = rawGesture;
-            gestureFrames.current = 1;
-          }
+    const showStatus = ({ update }: PipelineOutput, prefix: string) => {
+      const primary = update.hands.find((r) => r.gesture === update.gesture) ?? update.hands[0];
+      if (update.hands.some((r) => r.isTracking)) {
+        setStatus(`${prefix}Tracking: ${update.hands.map((r) => `${r.handedness[0]} ${r.gesture}`).join(' · ')}`);
+      } else {
+        setStatus(primary ? `${prefix}Holding: ${primary.gesture}` : `${prefix}Searching Hand...`);
+      }
+    };
 
-          if (gestureFrames.current >= 2) {
-            stableGesture.current = pendingGesture.current;
-          }
+    const handleFrame = (hands: RawHand[], now: number, prefix = '') => {
+      onHands?.(hands, now);
+      const output = pipeline.process(hands, now);
+      drawSkeletons(output.detections);
+      dispatch(output);
+      showStatus(output, prefix);
+    };
 
-          // --- CAMERA CONTROL INPUT ---
-          // Use Palm Center (Landmark 9)
-          // Invert X because of mirroring (Screen Left = Hand Left)
-          const normalizedPos = { x: 1.0 - landmarks[9].x, y: landmarks[9].y };
-
-          // Low-pass filter hand position for steadier camera control
-          smoothedPos.current = {
-            x: smoothedPos.current.x + (normalizedPos.x - smoothedPos.current.x) * 0.25,
-            y: smoothedPos.current.y + (normalizedPos.y - smoothedPos.current.y) * 0.25,
-          };
-
-          onUpdate({
-            fingerCount: count,
-            gesture: stableGesture.current,
-            position: smoothedPos.current,
-            isTracking: true
-          });
-
-          setStatus(`Tracking: ${stableGesture.current}`);
-        } else {
-          onUpdate({
-            fingerCount: 0,
-            gesture: "NONE",
-            position: { x: 0.5, y: 0.5 },
-            isTracking: false
-          });
-          setStatus("Searching Hand...");
-        }
-        ctx.restore();
-      }
-    });
+    // --- REPLAY ---
+    // A recording stands in for camera and model; everything after that is the same
+    if (player) {
+      let frameId = 0;
+      let last = performance.now();
+      const loop = (now: number) => {
+        const frames = player.advance(now - last);
+        last = now;
+        const prefix = `Replay ${(player.position / 1000).toFixed(1)}s · `;
+        frames.forEach((frame) => handleFrame(frame.hands, frame.now, prefix));
+        if (frames.length === 0 && !player.playing) setStatus(`Replay paused ${(player.position / 1000).toFixed(1)}s`);
+        frameId = requestAnimationFrame(loop);
+      };
+      frameId = requestAnimationFrame(loop);
+      return () => cancelAnimationFrame(frameId);
+    }
 
-    const camera = new Camera(videoRef.current, {
-      onFrame: async () => {
-        if (videoRef.current) {
-          await hands.send({ image: videoRef.current });
-        }
-      },
-      width: 320,
-      height: 240
+    // --- LIVE ---
+    // Results still in flight after cleanup belong to the old session
+    let active = true;
+    let frameId = 0;
+    let lastIdleAt = 0;
+    const { landmarker: loading, release } = acquireHandLandmarker();
+    const capture = new CameraCapture(videoRef.current, camera, (state) => {
+      if (!active) return;
+      if (state === 'reconnecting') setStatus(`Reconnecting Camera (${capture.restarts})...`);
+      else if (state === 'live' && capture.restarts > 0) setStatus("Camera Active");
     });
 
-    camera.start().then(() => setStatus("Camera Active")).catch((e: any) => setStatus("Camera Error: " + e));
+    // Which of the two failed decides the message and what App falls back to
+    const failAs = (cause: 'camera' | 'model') => (error: unknown) => Promise.reject({ cause, error });
+
+    setStatus("Loading Model...");
+    Promise.all([loading.catch(failAs('model')), capture.start().catch(failAs('camera'))])
+      .then(([landmarker]) => {
+        if (!active) return;
+        setStatus("Camera Active");
+
+        const loop = (now: number) => {
+          if (capture.hasNewFrame()) {
+            const raw = readHandLandmarkerResult(landmarker.detectForVideo(videoRef.current!, now));
+            recorder?.capture(raw, now);
+            handleFrame(raw, now, recorder?.isRecording ? '● ' : '');
+          } else if (capture.state === 'reconnecting' && now - lastIdleAt > 100) {
+            // No camera, no hands: let held gestures time out instead of freezing
+            lastIdleAt = now;
+            const output = pipeline.process([], now);
+            drawSkeletons(output.detections);
+            dispatch(output);
+          }
+          frameId = requestAnimationFrame(loop);
+        };
+        frameId = requestAnimationFrame(loop);
+      })
+      .catch(({ cause, error }: { cause: 'camera' | 'model'; error: unknown }) => {
+        if (!active) return;
+        console.error(cause === 'model' ? "Hand model failed to load:" : "Error accessing webcam:", error);
+        setStatus(cause === 'model' ? "Model Error" : "Camera Error");
+        onUnavailable?.(error instanceof Error ? error.message : String(error), cause);
+      });
 
     return () => {
-      // Cleanup
+      active = false;
+      cancelAnimationFrame(frameId);
+      capture.stop();
+      release();
     };
-  }, [onUpdate]);
+  }, [onUpdate, onMotion, onGestureStart, onGestureHold, onGestureEnd, onUnavailable, recorder, player, camera, pipelineOptions, onHands]);
 
   return (
     <div className="absolute top-4 right-4 z-50">
       <div className="relative border border-pink-500/30 rounded-lg overflow-hidden w-32 h-24 bg-transparent shadow-none">
         {/* Debug Canvas: Visible but subtle */}
-        <canvas ref={canvasRef} width={320} height={240} className="w-full h-full object-cover opacity-80" />
+        <canvas ref={canvasRef} width={camera.width} height={camera.height} className="w-full h-full object-cover opacity-80" />
         <video ref={videoRef} className="hidden" playsInline muted />
         
         <div className="absolute bottom-0 left-0 right-0 px-2 py-1 flex justify-between items-center">
             <span className="text-[8px] text-pink-200 font-mono tracking-wider uppercase shadow-black drop-shadow-md">{status}</span>
-            <div className={`w-1.5 h-1.5 rounded-full ${status.includes("Tracking") ? 'bg-green-400' : 'bg-red-400'}`}></div>
+            <div className={`w-1.5 h-1.5 rounded-full ${status.includes("Tracking") ? 'bg-green-400' : status.includes("Holding") ? 'bg-yellow-400' : 'bg-red-400'}`}></div>
         </div>
       </div>
     </div>
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Html } from '@react-three/drei';
+import { PhotoMetadata } from '../types';
+
+interface PhotoCaptionProps {
+  meta: PhotoMetadata;
+  visible: boolean;
+  position: [number, number, number];
+}
+
+export const hasCaption = (meta: PhotoMetadata) => Boolean(meta.title || meta.date || meta.caption || meta.credit);
+
+// ISO dates read better spelled out; anything else from a manifest is shown as written
+const formatDate = (date: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  const parsed = new Date(`${date}T00:00:00`);
+  return isNaN(parsed.getTime())
+    ? date
+    : parsed.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+// DOM overlay pinned under a polaroid; stays mounted so it can fade out as well as in
+const PhotoCaption: React.FC<PhotoCaptionProps> = ({ meta, visible, position }) => {
+  const byline = [meta.date ? formatDate(meta.date) : null, meta.credit].filter(Boolean).join(' · ');
+
+  return (
+    <Html position={position} center zIndexRange={[30, 0]} style={{ pointerEvents: 'none' }}>
+      <div
+        className={`w-72 text-center select-none transition-opacity duration-700 drop-shadow-[0_2px_4px_rgba(0,0,0,0.9)] ${visible ? 'opacity-100' : 'opacity-0'}`}
+      >
+        {meta.title && (
+          <div className="text-lg text-pink-100 font-light tracking-wide leading-snug">{meta.title}</div>
+        )}
+        {byline && (
+          <div className="mt-1 text-[10px] text-pink-300 font-mono uppercase tracking-widest">{byline}</div>
+        )}
+        {meta.caption && (
+          <div className="mt-2 text-sm text-gray-200 font-light leading-relaxed">{meta.caption}</div>
+        )}
+      </div>
+    </Html>
+  );
+};
+
+export default PhotoCaption;
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { PhotoSource } from '../types';
+import { acquireTexture } from '../utils/textureCache';
+import { PHOTO_OFFSET_Y, fitPhoto, frameFor } from '../utils/polaroid';
+import PhotoCaption, { hasCaption } from './PhotoCaption';
+
+// One browse step. `id` increases with every step so repeats are distinct.
+export interface PhotoStep {
+  id: number;
+  direction: 1 | -1; // +1 = next photo
+  speed: number; // Of the gesture that caused it; faster flicks carry further
+}
+
+interface PhotoCarouselProps {
+  sources: PhotoSource[];
+  active: boolean;
+  step: PhotoStep | null;
+}
+
+// Only this many slots either side of the focused photo are mounted, so
+// galleries of hundreds of images only ever hold a handful of textures.
+const WINDOW_RADIUS = 3;
+
+// Layout in camera space
+const SLOT_SPACING = 8.5;
+const FOCUS_DISTANCE = 36;
+const RECEDE_DEPTH = 9;
+const FOCUS_SCALE = 2.0;
+const SIDE_SCALE = 0.9;
+
+// Momentum: steps add velocity (slots/s), friction bleeds it, then a spring snaps to the nearest photo
+const STEP_IMPULSE = 1.6;
+const STEP_SPEED_GAIN = 1.2;
+const MAX_VELOCITY = 12;
+const FRICTION = 2.5;
+const SNAP_SPEED = 0.6;
+const SNAP_STIFFNESS = 30;
+const SNAP_DAMPING = 10;
+
+interface CarouselMotion {
+  offset: number; // Continuous position in the (unbounded) photo strip
+  velocity: number;
+}
+
+const wrap = (index: number, count: number) => ((index % count) + count) % count;
+
+interface CarouselSlotProps {
+  slotIndex: number;
+  source: PhotoSource;
+  motionRef: React.MutableRefObject<CarouselMotion>;
+  presenceRef: React.MutableRefObject<number>;
+  isCentered: boolean;
+  active: boolean;
+}
+
+const CarouselSlot: React.FC<CarouselSlotProps> = ({ slotIndex, source, motionRef, presenceRef, isCentered, active }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const [texture, setTexture] = useState<THREE.Texture | null>(null);
+  const [aspect, setAspect] = useState(source.aspect ?? 3 / 4);
+  const local = useMemo(() => new THREE.Vector3(), []);
+
+  useEffect(() => {
+    setTexture(null);
+    return acquireTexture(source.url, (tex) => {
+      const image = tex.image as { width?: number; height?: number } | undefined;
+      if (image?.width && image?.height) setAspect(image.width / image.height);
+      setTexture(tex);
+    });
+  }, [source.url]);
+
+  const photoSize = useMemo(() => fitPhoto(aspect), [aspect]);
+  const frameSize = frameFor(photoSize);
+
+  useFrame(({ camera }) => {
+    if (!groupRef.current) return;
+
+    const rel = slotIndex - motionRef.current.offset;
+    const distance = Math.abs(rel);
+    const focus = Math.max(0, 1 - distance); // 1 when centred
+
+    // Recede sideways and backwards; shrink to nothing at the window edge so slots never pop
+    local.set(
+      rel * SLOT_SPACING,
+      0,
+      -(FOCUS_DISTANCE + Math.min(distance, WINDOW_RADIUS) * RECEDE_DEPTH)
+    );
+    const edgeFade = THREE.MathUtils.clamp(WINDOW_RADIUS + 0.5 - distance, 0, 1);
+    const scale = THREE.MathUtils.lerp(SIDE_SCALE, FOCUS_SCALE, focus) * edgeFade * presenceRef.current;
+
+    groupRef.current.position.copy(camera.localToWorld(local));
+    groupRef.current.quaternion.copy(camera.quaternion);
+    groupRef.current.scale.setScalar(Math.max(scale, 0.0001));
+  });
+
+  return (
+    <group ref={groupRef}>
+      <mesh position={[0, 0, -0.05]}>
+        <boxGeometry args={[frameSize.width, frameSize.height, 0.1]} />
+        <meshStandardMaterial color="#ffffff" roughness={0.4} />
+      </mesh>
+      <mesh position={[0, PHOTO_OFFSET_Y, 0.05]}>
+        <planeGeometry args={[photoSize.width, photoSize.height]} />
+        {texture ? (
+           <meshBasicMaterial map={texture} toneMapped={false} />
+        ) : (
+           <meshBasicMaterial color="#333" />
+        )}
+      </mesh>
+      {hasCaption(source) && (
+        <PhotoCaption
+          meta={source}
+          visible={active && isCentered}
+          position={[0, -frameSize.height / 2 - 1.0, 0]}
+        />
+      )}
+    </group>
+  );
+};
+
+const PhotoCarousel: React.FC<PhotoCarouselProps> = ({ sources, active, step }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const motionRef = useRef<CarouselMotion>({ offset: 0, velocity: 0 });
+  const presenceRef = useRef(0);
+  const [centerSlot, setCenterSlot] = useState(0);
+  const [mounted, setMounted] = useState(false); // No slots (or textures) until first opened
+
+  useEffect(() => {
+    if (active) setMounted(true);
+  }, [active]);
+
+  useEffect(() => {
+    if (!step || !active) return;
+    const m = motionRef.current;
+    const impulse = STEP_IMPULSE + step.speed * STEP_SPEED_GAIN;
+    m.velocity = THREE.MathUtils.clamp(m.velocity + step.direction * impulse, -MAX_VELOCITY, MAX_VELOCITY);
+  }, [step]);
+
+  useFrame((_, delta) => {
+    const dt = Math.min(delta, 0.05);
+    const m = motionRef.current;
+
+    if (Math.abs(m.velocity) > SNAP_SPEED) {
+      m.velocity *= Math.exp(-FRICTION * dt);
+    } else {
+      const target = Math.round(m.offset);
+      m.velocity += ((target - m.offset) * SNAP_STIFFNESS - m.velocity * SNAP_DAMPING) * dt;
+    }
+    m.offset += m.velocity * dt;
+
+    presenceRef.current = THREE.MathUtils.lerp(presenceRef.current, active ? 1 : 0, Math.min(1, delta * 4));
+    if (groupRef.current) groupRef.current.visible = presenceRef.current > 0.01;
+    if (!active && mounted && presenceRef.current < 0.01) setMounted(false);
+
+    // Slide the mounted window only when the centre photo changes
+    const nearest = Math.round(m.offset);
+    if (nearest !== centerSlot) setCenterSlot(nearest);
+  });
+
+  if (!mounted || sources.length === 0) return null;
+
+  // Slots are keyed by their position in the unbounded strip, so sliding the window only
+  // mounts the photo entering at one edge and unmounts the one leaving at the other.
+  const slots: number[] = [];
+  const radius = Math.min(WINDOW_RADIUS, Math.floor((sources.length - 1) / 2));
+  for (let i = centerSlot - radius; i <= centerSlot + radius; i++) slots.push(i);
+
+  return (
+    <group ref={groupRef}>
+      {slots.map((slotIndex) => (
+        <CarouselSlot
+          key={slotIndex}
+          slotIndex={slotIndex}
+          source={sources[wrap(slotIndex, sources.length)]}
+          motionRef={motionRef}
+          presenceRef={presenceRef}
+          isCentered={slotIndex === centerSlot}
+          active={active}
+        />
+      ))}
+    </group>
+  );
+};
+
+export default PhotoCarousel;
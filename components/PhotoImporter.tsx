@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PhotoOrigin, isImageFile } from '../utils/photoSources';
+
+interface PhotoImporterProps {
+  origin: PhotoOrigin;
+  count: number;
+  onImport: (files: File[]) => void;
+  onClear: () => void;
+}
+
+const ORIGIN_LABELS: Record<PhotoOrigin, string> = {
+  imported: 'Imported',
+  manifest: 'Manifest',
+  folder: 'Folder',
+  default: 'Online Samples',
+};
+
+const PhotoImporter: React.FC<PhotoImporterProps> = ({ origin, count, onImport, onClear }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // React's input typings don't know about directory pickers
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // Drag-and-drop anywhere on the page
+  useEffect(() => {
+    let depth = 0;
+
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+
+    const onDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth++;
+      setIsDragging(true);
+    };
+    const onDragOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const onDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setIsDragging(false);
+    };
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth = 0;
+      setIsDragging(false);
+      const files = Array.from(e.dataTransfer?.files ?? []).filter(isImageFile);
+      if (files.length > 0) onImport(files);
+    };
+
+    window.addEventListener('dragenter', onDragEnter);
+    window.addEventListener('dragover', onDragOver);
+    window.addEventListener('dragleave', onDragLeave);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragenter', onDragEnter);
+      window.removeEventListener('dragover', onDragOver);
+      window.removeEventListener('dragleave', onDragLeave);
+      window.removeEventListener('drop', onDrop);
+    };
+  }, [onImport]);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(isImageFile);
+    if (files.length > 0) onImport(files);
+    e.target.value = ''; // Allow picking the same selection again
+  };
+
+  return (
+    <>
+      {isDragging && (
+        <div className="absolute inset-0 z-[60] flex items-center justify-center bg-black/70 border-2 border-dashed border-pink-400/60 pointer-events-none">
+          <span className="text-pink-100 font-thin tracking-[0.3em] uppercase text-xl">Drop Photos</span>
+        </div>
+      )}
+
+      <div className="absolute bottom-6 right-6 z-[55] flex items-center gap-2 font-mono text-[10px] text-gray-400 select-none">
+        <span className="tracking-widest uppercase opacity-60">{ORIGIN_LABELS[origin]}</span>
+        <span className="text-pink-200">{count}</span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-2 py-0.5 rounded border border-gray-700 hover:border-pink-400 hover:text-pink-200 transition-colors uppercase tracking-widest"
+        >
+          Photos
+        </button>
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          className="px-2 py-0.5 rounded border border-gray-700 hover:border-pink-400 hover:text-pink-200 transition-colors uppercase tracking-widest"
+        >
+          Folder
+        </button>
+        {origin === 'imported' && (
+          <button
+            onClick={onClear}
+            className="px-2 py-0.5 rounded border border-gray-700 hover:border-red-400 hover:text-red-300 transition-colors uppercase tracking-widest"
+          >
+            Reset
+          </button>
+        )}
+        <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+        <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleFiles} />
+      </div>
+    </>
+  );
+};
+
+export default PhotoImporter;
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { PhotoData, PointerReading } from '../types';
+import { PolaroidPicking } from './FloatingGallery';
+import { addBurst } from '../utils/petalBurst';
+
+interface PinchCursorProps {
+  pointer: PointerReading | null;
+  pickingRef: React.MutableRefObject<PolaroidPicking>;
+  photos: PhotoData[];
+  leafNodes: THREE.Vector3[]; // Blossom clusters grow around these
+  expansionRef: React.MutableRefObject<number>;
+  burstsRef: React.MutableRefObject<THREE.Vector4[]>;
+}
+
+// Reticle, drawn in camera space so it stays the same size on screen
+const RETICLE_DISTANCE = 12;
+const RETICLE_RADIUS = 0.22;
+const ARC_SEGMENTS = 48;
+
+// Dwell: resting on a target selects it, for people who can't pinch reliably
+const DWELL_MS = 1200;
+const DWELL_STILL = 0.025; // Cursor may wander this far (screen fraction) and still count as resting
+const BLOSSOM_DWELL_MS = 350; // Bursts are cheap to undo, so they need less
+
+const CLUSTER_RADIUS = 10; // Blossoms spread this far around a leaf node
+const CLUSTER_LIFT = 2; // Clusters sit slightly above their branch tip
+const BURST_COOLDOWN_MS = 2500; // Per cluster
+const RETURN_RADIUS = 0.15; // Released this close (NDC) to its branch tip, a photo goes back
+
+type Target = { kind: 'polaroid'; index: number; distance: number } | { kind: 'blossom'; index: number };
+
+const sameTarget = (a: Target | null, b: Target | null) =>
+  a?.kind === b?.kind && a?.index === b?.index;
+
+const PinchCursor: React.FC<PinchCursorProps> = ({ pointer, pickingRef, photos, leafNodes, expansionRef, burstsRef }) => {
+  const reticleRef = useRef<THREE.Group>(null);
+  const ringMaterialRef = useRef<THREE.MeshBasicMaterial>(null);
+  const wasPinching = useRef(false);
+  const grabDistance = useRef(0);
+  const grabbedByDwell = useRef(false);
+  const dwell = useRef<{ target: Target | null; since: number }>({ target: null, since: 0 });
+  const stillSince = useRef({ since: 0, x: 0, y: 0 });
+  const lastBurst = useRef(new Map<number, number>());
+
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+  const temp = useMemo(() => ({
+    ndc: new THREE.Vector2(),
+    local: new THREE.Vector3(),
+    cluster: new THREE.Vector3(),
+    projected: new THREE.Vector3(),
+    closest: new THREE.Vector3(),
+  }), []);
+
+  // Dwell progress arc: a ring whose index range is trimmed to the progress
+  const arcGeometry = useMemo(() => new THREE.RingGeometry(RETICLE_RADIUS * 1.25, RETICLE_RADIUS * 1.55, ARC_SEGMENTS, 1, Math.PI / 2), []);
+  useEffect(() => () => arcGeometry.dispose(), [arcGeometry]);
+
+  // Drop whatever is held: back to the branch if released over its tip, else where it is.
+  // `at` is the cursor in NDC, or null when the hand was lost.
+  const release = (camera: THREE.Camera, at: THREE.Vector2 | null) => {
+    const picking = pickingRef.current;
+    if (picking.grabbed === null) return;
+    const anchor = photos[picking.grabbed]?.anchor;
+
+    let backHome = false;
+    if (anchor && at) {
+      temp.projected.copy(anchor).project(camera);
+      backHome = Math.hypot(temp.projected.x - at.x, temp.projected.y - at.y) < RETURN_RADIUS;
+    }
+    if (backHome) picking.dropped.delete(picking.grabbed);
+    else picking.dropped.set(picking.grabbed, picking.grabPoint.clone());
+
+    picking.grabbed = null;
+    grabbedByDwell.current = false;
+  };
+
+  // Nearest polaroid under the ray, else the nearest blossom cluster it passes through
+  const findTarget = (): Target | null => {
+    const groups = pickingRef.current.groups.filter((group): group is THREE.Group => !!group);
+    const hit = raycaster
+      .intersectObjects(groups, true)
+      .find((intersection) => (intersection.object as THREE.Mesh).isMesh);
+    if (hit) {
+      let node: THREE.Object3D | null = hit.object;
+      while (node && !groups.includes(node as THREE.Group)) node = node.parent;
+      const index = pickingRef.current.groups.indexOf(node as THREE.Group);
+      if (index >= 0) return { kind: 'polaroid', index, distance: hit.distance };
+    }
+
+    // Blossoms only exist as clusters in the tree state
+    if (expansionRef.current > 0.5) return null;
+    let best: Target | null = null;
+    let bestDistance = Infinity;
+    leafNodes.forEach((node, index) => {
+      temp.cluster.set(node.x, node.y + CLUSTER_LIFT, node.z);
+      raycaster.ray.closestPointToPoint(temp.cluster, temp.closest);
+      if (temp.closest.distanceTo(temp.cluster) > CLUSTER_RADIUS) return;
+      const along = raycaster.ray.origin.distanceTo(temp.closest);
+      if (along < bestDistance) {
+        bestDistance = along;
+        best = { kind: 'blossom', index };
+      }
+    });
+    return best;
+  };
+
+  const burst = (index: number, clockTime: number, now: number) => {
+    if (now - (lastBurst.current.get(index) ?? -Infinity) < BURST_COOLDOWN_MS) return;
+    lastBurst.current.set(index, now);
+    const node = leafNodes[index];
+    addBurst(burstsRef.current, temp.cluster.set(node.x, node.y + CLUSTER_LIFT, node.z), clockTime);
+  };
+
+  useFrame(({ camera, clock }) => {
+    const reticle = reticleRef.current;
+    const picking = pickingRef.current;
+    const now = performance.now();
+
+    if (!pointer) {
+      // Hand gone: let go of whatever was held where it is
+      if (picking.grabbed !== null) release(camera, null);
+      wasPinching.current = false;
+      dwell.current.target = null;
+      if (reticle) reticle.visible = false;
+      return;
+    }
+
+    temp.ndc.set(pointer.x * 2 - 1, -(pointer.y * 2 - 1));
+    raycaster.setFromCamera(temp.ndc, camera);
+
+    const pinchStart = pointer.pinching && !wasPinching.current;
+    const pinchEnd = !pointer.pinching && wasPinching.current;
+    wasPinching.current = pointer.pinching;
+
+    // Resting: the cursor hasn't wandered since `stillSince`
+    const still = stillSince.current;
+    if (Math.hypot(pointer.x - still.x, pointer.y - still.y) > DWELL_STILL) {
+      stillSince.current = { since: now, x: pointer.x, y: pointer.y };
+    }
+    const restedMs = now - stillSince.current.since;
+
+    let progress = 0;
+
+    if (picking.grabbed !== null) {
+      // --- HOLDING ---
+      picking.grabPoint.copy(raycaster.ray.origin).addScaledVector(raycaster.ray.direction, grabDistance.current);
+
+      if (grabbedByDwell.current) {
+        progress = Math.min(1, restedMs / DWELL_MS);
+        if (progress >= 1 || pinchStart) release(camera, temp.ndc);
+      } else if (pinchEnd) {
+        release(camera, temp.ndc);
+      }
+      if (picking.grabbed === null) stillSince.current.since = now; // Don't dwell-select straight after dropping
+    } else {
+      // --- POINTING ---
+      const target = findTarget();
+      if (!sameTarget(target, dwell.current.target)) {
+        dwell.current = { target, since: now };
+      }
+      const dwellMs = Math.min(now - dwell.current.since, restedMs);
+
+      if (target?.kind === 'polaroid') {
+        progress = Math.min(1, dwellMs / DWELL_MS);
+        if (pinchStart || progress >= 1) {
+          picking.grabbed = target.index;
+          grabDistance.current = target.distance;
+          grabbedByDwell.current = !pinchStart;
+          picking.grabPoint.copy(raycaster.ray.origin).addScaledVector(raycaster.ray.direction, target.distance);
+          stillSince.current.since = now;
+          progress = 0;
+        }
+      } else if (target?.kind === 'blossom') {
+        progress = Math.min(1, dwellMs / BLOSSOM_DWELL_MS);
+        if (pinchStart || progress >= 1) burst(target.index, clock.elapsedTime, now);
+      }
+    }
+
+    // --- RETICLE ---
+    if (reticle) {
+      reticle.visible = true;
+      temp.local.copy(raycaster.ray.direction).multiplyScalar(RETICLE_DISTANCE).add(raycaster.ray.origin);
+      reticle.position.copy(temp.local);
+      reticle.quaternion.copy(camera.quaternion);
+      const targetScale = pointer.pinching || picking.grabbed !== null ? 0.7 : 1;
+      reticle.scale.setScalar(THREE.MathUtils.lerp(reticle.scale.x || 1, targetScale, 0.3));
+    }
+    if (ringMaterialRef.current) {
+      ringMaterialRef.current.color.set(picking.grabbed !== null ? '#9fd4ff' : dwell.current.target ? '#ffb7c5' : '#ffffff');
+    }
+    arcGeometry.setDrawRange(0, Math.floor(progress * ARC_SEGMENTS) * 6);
+  });
+
+  return (
+    <group ref={reticleRef} visible={false} renderOrder={999}>
+      <mesh renderOrder={999}>
+        <ringGeometry args={[RETICLE_RADIUS * 0.8, RETICLE_RADIUS, 32]} />
+        <meshBasicMaterial ref={ringMaterialRef} transparent opacity={0.85} depthTest={false} depthWrite={false} />
+      </mesh>
+      <mesh geometry={arcGeometry} renderOrder={999}>
+        <meshBasicMaterial color="#ffb7c5" transparent opacity={0.9} depthTest={false} depthWrite={false} side={THREE.DoubleSide} />
+      </mesh>
+    </group>
+  );
+};
+
+export default PinchCursor;
@@ -2,8 +2,11 @@
 import React, { useMemo, useRef, useEffect } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
-import { ParticleData } from '../types';
+import { FormationId, GalaxyOrbit, ParticleData, ShaderTuning } from '../types';
+import { FORMATIONS, FormationMorph, formationBlend } from '../utils/formations';
 import { createPetalTexture, createBarkTexture } from '../utils/textureGen';
+import { GUST, WIND, glslFloat } from '../utils/wind';
+import { BURST, createBurstSlots } from '../utils/petalBurst';
 
 const SakuraShaderMaterial = {
   uniforms: {
@@ -13,6 +16,19 @@ const SakuraShaderMaterial = {
     uTexture: { value: null as THREE.Texture | null },
     uHueOffset: { value: 0 },
     uIsWood: { value: 0 }, // 1 for wood, 0 for blossom
+    uSpin: { value: 0 }, // Extra galaxy rotation from spin gestures (rad)
+    uBursts: { value: createBurstSlots() },
+    uGust: { value: new THREE.Vector3() }, // Wind from whole-body motion (world units of lean)
+    uShed: { value: 0 }, // 0..1 gust strength, how many petals let go
+    uOpacity: { value: 1 }, // Crossfade between an old tree and its replacement
+    uMorph: { value: 1 }, // Eased blend from aFormFrom to aFormTo (galaxy formations)
+    uOrbit: { value: 0 }, // GalaxyOrbit angles (rad)
+    uShear: { value: 0 },
+    // Tunable look (ShaderTuning), live from the tuning panel
+    uWindAmp: { value: 1 },
+    uFlutter: { value: 0.6 },
+    uPointScale: { value: 1 },
+    uAlphaClip: { value: 0.3 },
   },
   vertexShader: `
     uniform float uTime;
@@ -20,8 +36,20 @@ const SakuraShaderMaterial = {
     uniform float uPixelRatio;
     uniform float uHueOffset;
     uniform float uIsWood;
+    uniform float uSpin;
+    uniform vec4 uBursts[${BURST.slots}];
+    uniform vec3 uGust;
+    uniform float uShed;
+    uniform float uOpacity;
+    uniform float uMorph;
+    uniform float uOrbit;
+    uniform float uShear;
+    uniform float uWindAmp;
+    uniform float uFlutter;
+    uniform float uPointScale;
     
-    attribute vec3 aTargetPos;
+    attribute vec3 aFormFrom;
+    attribute vec3 aFormTo;
     attribute float aSize;
     attribute vec3 color;
     attribute float aRotation;
@@ -60,28 +88,63 @@ const SakuraShaderMaterial = {
       
       // 2. Position/Expansion Logic
       float t = easeInOutCubic(uExpansion);
-      vec3 pos = mix(position, aTargetPos, t);
+      vec3 pos = mix(position, mix(aFormFrom, aFormTo, uMorph), t);
 
       float time = uTime + aPhase;
+      float shedFade = 1.0;
 
       // Turbulence / Wind
       if (uExpansion < 0.5) {
           // Tree State: Gentle Sway
-          float wind = sin(time * 1.2 + pos.y * 0.04) * 0.35 * (pos.y * 0.01 + 1.0);
+          float wind = sin(time * ${glslFloat(WIND.swayFreq)} + pos.y * ${glslFloat(WIND.heightFreq)}) * ${glslFloat(WIND.swayAmp)} * uWindAmp * (pos.y * ${glslFloat(WIND.heightGain)} + 1.0);
           pos.x += wind + aDrift.x * 0.35;
-          pos.z += cos(time * 1.1 + pos.x * 0.04) * 0.25 + aDrift.z * 0.35;
+          pos.z += cos(time * ${glslFloat(WIND.crossFreq)} + pos.x * ${glslFloat(WIND.heightFreq)}) * ${glslFloat(WIND.crossAmp)} * uWindAmp + aDrift.z * 0.35;
+
+          // Gust: the crown leans downwind, higher parts further (wood and blossom alike, so petals stay on their twigs)
+          pos += uGust * (position.y * ${glslFloat(WIND.heightGain)} + 1.0);
 
           // Petal float: subtle flutter and slow downward glide
           if (uIsWood < 0.5) {
-              float flutter = sin(time * 2.5) * 0.6;
+              float flutter = sin(time * 2.5) * uFlutter;
               pos.y += flutter * 0.4;
               pos.y -= (1.0 - t) * 0.12; // Gravity pull toward branches
+
+              // Bursts: fly out from the centre, sink and tumble, then settle back
+              for (int i = 0; i < ${BURST.slots}; i++) {
+                  vec4 burst = uBursts[i];
+                  float age = uTime - burst.w;
+                  if (burst.w < 0.0 || age < 0.0 || age > ${glslFloat(BURST.duration)}) continue;
+
+                  vec3 away = position - burst.xyz;
+                  float reach = 1.0 - smoothstep(${glslFloat(BURST.radius * 0.5)}, ${glslFloat(BURST.radius)}, length(away));
+                  if (reach <= 0.0) continue;
+
+                  float p = age / ${glslFloat(BURST.duration)};
+                  float airborne = smoothstep(0.0, 0.1, p) * (1.0 - smoothstep(0.55, 1.0, p));
+                  vec3 dir = normalize(away + aDrift * 3.0 + vec3(0.0, 0.01, 0.0));
+                  pos += dir * ${glslFloat(BURST.spread)} * airborne * reach;
+                  pos.y -= ${glslFloat(BURST.gravity)} * p * airborne * reach;
+                  vRotation += age * 6.0 * airborne * reach;
+              }
+
+              // Shedding: in a strong gust some petals let go, ride the wind and fall, then grow back
+              float shedPick = fract(sin(aPhase * 12.9898) * 43758.5453);
+              float shedLimit = uShed * ${glslFloat(GUST.shedFraction)};
+              float loose = 1.0 - smoothstep(shedLimit - 0.05, shedLimit, shedPick);
+              if (loose > 0.0) {
+                  float cycle = fract(uTime / ${glslFloat(GUST.shedPeriod)} + shedPick * 7.0);
+                  vec3 downwind = uGust / max(length(uGust), 0.001);
+                  pos += (downwind * ${glslFloat(GUST.shedDistance)} + aDrift * 4.0) * cycle * loose;
+                  pos.y -= ${glslFloat(GUST.shedGravity)} * cycle * cycle * loose;
+                  vRotation += cycle * 8.0 * loose;
+                  // Fade in on the branch as it regrows, out before it lands
+                  shedFade = 1.0 - loose * (1.0 - smoothstep(0.0, 0.08, cycle) * (1.0 - smoothstep(0.8, 1.0, cycle)));
+              }
           }
       } else {
           // Galaxy State: Orbit
-          float orbitSpeed = 0.2;
           float r = length(pos.xz);
-          float theta = atan(pos.z, pos.x) + uTime * orbitSpeed * (100.0 / (r + 10.0));
+          float theta = atan(pos.z, pos.x) + uOrbit + uShear * (100.0 / (r + 10.0)) + uSpin;
           pos.x = r * cos(theta);
           pos.z = r * sin(theta);
 
@@ -94,7 +157,7 @@ const SakuraShaderMaterial = {
       vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
       
       // Size attenuation
-      gl_PointSize = aSize * uPixelRatio * (200.0 / -mvPosition.z);
+      gl_PointSize = aSize * uPixelRatio * uPointScale * (200.0 / -mvPosition.z);
       
       // 3. Alpha Logic
       
@@ -107,13 +170,14 @@ const SakuraShaderMaterial = {
           woodFade = 1.0 - smoothstep(0.0, 0.2, uExpansion);
       }
       
-      vAlpha = camDistAlpha * woodFade;
+      vAlpha = camDistAlpha * woodFade * shedFade * uOpacity;
       
       gl_Position = projectionMatrix * mvPosition;
     }
   `,
   fragmentShader: `
     uniform sampler2D uTexture;
+    uniform float uAlphaClip;
     varying vec3 vColor;
     varying float vAlpha;
     varying float vRotation;
@@ -131,7 +195,7 @@ const SakuraShaderMaterial = {
       vec4 texColor = texture2D(uTexture, rotatedCoord);
       
       // Alpha Clipping (Fix artifacts)
-      if (texColor.a < 0.3) discard;
+      if (texColor.a < uAlphaClip) discard;
       if (vAlpha < 0.01) discard;
       
       gl_FragColor = vec4(vColor, vAlpha * texColor.a);
@@ -139,34 +203,74 @@ const SakuraShaderMaterial = {
   `
 };
 
+// The same for every tree, so it's made once, on first use
+let sharedPetalTexture: THREE.Texture | null = null;
+const petalTexture = () => (sharedPetalTexture ??= createPetalTexture());
+
 interface SakuraTreeProps {
   data: ParticleData;
   mode: 'wood' | 'blossom';
   expansionRef: React.MutableRefObject<number>;
   hueRef: React.MutableRefObject<number>;
+  spinRef: React.MutableRefObject<number>;
+  formationRef: React.MutableRefObject<FormationMorph>;
+  orbitRef: React.MutableRefObject<GalaxyOrbit>;
+  burstsRef?: React.MutableRefObject<THREE.Vector4[]>; // Blossoms only
+  gustRef: React.MutableRefObject<THREE.Vector3>;
+  tuningRef: React.MutableRefObject<ShaderTuning>;
+  opacityRef?: React.MutableRefObject<number>; // While crossfading to a regenerated tree
+  drawFraction?: number; // Quality tier: share of the (shuffled) particles drawn
+  seed: number;
 }
 
-const SakuraTree: React.FC<SakuraTreeProps> = ({ data, mode, expansionRef, hueRef }) => {
+const SakuraTree: React.FC<SakuraTreeProps> = ({ data, mode, expansionRef, hueRef, spinRef, formationRef, orbitRef, burstsRef, gustRef, tuningRef, opacityRef, drawFraction = 1, seed }) => {
   const shaderRef = useRef<THREE.ShaderMaterial>(null);
+  // Own uniforms per material: ShaderMaterial keeps the object it is given, so the wood
+  // and blossom trees would otherwise overwrite each other's mode and texture
+  const shaderArgs = useMemo(
+    () => ({ ...SakuraShaderMaterial, uniforms: THREE.UniformsUtils.clone(SakuraShaderMaterial.uniforms) }),
+    []
+  );
   
   const texture = useMemo(() => {
-    return mode === 'wood' ? createBarkTexture() : createPetalTexture();
-  }, [mode]);
+    return mode === 'wood' ? createBarkTexture(seed) : petalTexture();
+  }, [mode, seed]);
+
+  // Bark is per seed, so every regrow makes a new one; the petal texture is shared and stays
+  useEffect(() => () => {
+    if (texture !== sharedPetalTexture) texture.dispose();
+  }, [texture]);
+
+  // Every formation is its own buffer; the two being morphed between are bound as aFormFrom/aFormTo
+  const formations = useMemo(() => {
+    const shell = new THREE.BufferAttribute(data.targetPositions, 3);
+    return Object.fromEntries(
+      FORMATIONS.map(({ id }) => [id, data.formations[id] ? new THREE.BufferAttribute(data.formations[id]!, 3) : shell])
+    ) as Record<FormationId, THREE.BufferAttribute>;
+  }, [data]);
 
   const geometry = useMemo(() => {
     const geo = new THREE.BufferGeometry();
     geo.setAttribute('position', new THREE.BufferAttribute(data.positions, 3));
-    geo.setAttribute('aTargetPos', new THREE.BufferAttribute(data.targetPositions, 3));
+    geo.setAttribute('aFormFrom', formations.shell);
+    geo.setAttribute('aFormTo', formations.shell);
+    // Also kept under their own names: they upload with the tree, and dispose() frees them all
+    FORMATIONS.forEach(({ id }) => geo.setAttribute(`aForm_${id}`, formations[id]));
     geo.setAttribute('color', new THREE.BufferAttribute(data.colors, 3));
     geo.setAttribute('aSize', new THREE.BufferAttribute(data.sizes, 1));
     geo.setAttribute('aDrift', new THREE.BufferAttribute(data.drifts, 3));
     geo.setAttribute('aPhase', new THREE.BufferAttribute(data.phases, 1));
-    const count = data.positions.length / 3;
-    const rotations = new Float32Array(count);
-    for(let i=0; i<count; i++) rotations[i] = Math.random() * Math.PI * 2;
-    geo.setAttribute('aRotation', new THREE.BufferAttribute(rotations, 1));
+    geo.setAttribute('aRotation', new THREE.BufferAttribute(data.rotations, 1));
     return geo;
-  }, [data]);
+  }, [data, formations]);
+
+  // Regenerated trees replace their buffers; free the old ones on the GPU
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // The particles are in random order, so a prefix thins the tree out evenly
+  useEffect(() => {
+    geometry.setDrawRange(0, Math.round(data.sizes.length * drawFraction));
+  }, [geometry, data, drawFraction]);
 
   useEffect(() => {
     if (shaderRef.current) shaderRef.current.uniforms.uTexture.value = texture;
@@ -175,9 +279,28 @@ const SakuraTree: React.FC<SakuraTreeProps> = ({ data, mode, expansionRef, hueRe
   useFrame((state) => {
     if (shaderRef.current) {
       shaderRef.current.uniforms.uTime.value = state.clock.elapsedTime;
+      shaderRef.current.uniforms.uPixelRatio.value = state.viewport.dpr; // Follows the tier's DPR
       shaderRef.current.uniforms.uExpansion.value = expansionRef.current;
       shaderRef.current.uniforms.uHueOffset.value = hueRef.current;
+      shaderRef.current.uniforms.uSpin.value = spinRef.current;
+      if (burstsRef) shaderRef.current.uniforms.uBursts.value = burstsRef.current;
+      shaderRef.current.uniforms.uGust.value.copy(gustRef.current);
+      shaderRef.current.uniforms.uShed.value = Math.min(gustRef.current.length() / GUST.max, 1);
       shaderRef.current.uniforms.uIsWood.value = mode === 'wood' ? 1.0 : 0.0;
+      shaderRef.current.uniforms.uOpacity.value = opacityRef?.current ?? 1;
+
+      const morph = formationRef.current;
+      if (geometry.getAttribute('aFormFrom') !== formations[morph.from]) geometry.setAttribute('aFormFrom', formations[morph.from]);
+      if (geometry.getAttribute('aFormTo') !== formations[morph.to]) geometry.setAttribute('aFormTo', formations[morph.to]);
+      shaderRef.current.uniforms.uMorph.value = formationBlend(morph);
+      shaderRef.current.uniforms.uOrbit.value = orbitRef.current.rigid;
+      shaderRef.current.uniforms.uShear.value = orbitRef.current.shear;
+
+      const tuning = tuningRef.current;
+      shaderRef.current.uniforms.uWindAmp.value = tuning.windAmplitude;
+      shaderRef.current.uniforms.uFlutter.value = tuning.flutter;
+      shaderRef.current.uniforms.uPointScale.value = tuning.pointScale;
+      shaderRef.current.uniforms.uAlphaClip.value = tuning.alphaClip;
     }
   });
 
@@ -186,7 +309,7 @@ const SakuraTree: React.FC<SakuraTreeProps> = ({ data, mode, expansionRef, hueRe
       <shaderMaterial
         ref={shaderRef}
         attach="material"
-        args={[SakuraShaderMaterial]}
+        args={[shaderArgs]}
         transparent
         depthWrite={false}
         blending={THREE.NormalBlending}
@@ -1,56 +1,228 @@
 
-import React, { useMemo, useEffect, useRef } from 'react';
+import React, { useMemo, useEffect, useRef, useState } from 'react';
 import { OrbitControls, Stars } from '@react-three/drei';
 import { useThree, useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { generateTree, createPhotoData } from '../utils/geometry';
+import { createPhotoData } from '../utils/geometry';
+import { TreeGenerator } from '../utils/treeGenerator';
+import { BimanualReading, FormationId, GalaxyOrbit, MotionEvent, PhotoSource, PointerReading, SceneAction, SceneTrigger, ShaderTuning, TreeData, TreeShape } from '../types';
+import { GalleryLayoutId } from '../utils/galleryLayouts';
+import { QualitySettings } from '../utils/quality';
+import { advanceFormationMorph, createFormationMorph, formationMotion, requestFormation } from '../utils/formations';
 import SakuraTree from './SakuraTree';
-import FloatingGallery from './FloatingGallery';
+import FloatingGallery, { createPolaroidPicking } from './FloatingGallery';
+import PhotoCarousel, { PhotoStep } from './PhotoCarousel';
+import PinchCursor from './PinchCursor';
+import { createBurstSlots } from '../utils/petalBurst';
+import { MotionReading } from '../utils/motionDetector';
+import { GUST } from '../utils/wind';
+
+// Galaxy spin: each spin trigger adds angular velocity (rad/s), which then bleeds off
+const SPIN_IMPULSE = 0.8;
+const SPIN_SPEED_GAIN = 0.6;
+const SPIN_MAX_VELOCITY = 4;
+const SPIN_FRICTION = 0.6;
+
+// Two-hand controls: spreading the palms dollies in, twisting them turns the galaxy
+const MIN_DISTANCE = 20;
+const MAX_DISTANCE = 150;
+const DOLLY_SMOOTHING = 4;
+const TWIST_GAIN = 1.5;
+
+// One-hand push/pull: distance shrinks or grows by up to this factor per second (e^rate)
+const DEPTH_DOLLY_RATE = 0.8;
+
+// A changed species or seed grows a new tree once the input settles, then fades it in over the old one
+const REGENERATE_DELAY_MS = 200;
+const CROSSFADE_SECONDS = 1.2;
+const TREE_ORIGIN = new THREE.Vector3(0, -60, 0);
+
+interface GrownTree {
+  id: number;
+  seed: number;
+  data: TreeData;
+}
+
+// Reference taken when the second hand appears; changes are measured from there
+interface BimanualGrip {
+  spread: number;
+  distance: number;
+  twist: number;
+}
 
 interface SceneProps {
-  gesture: string;
+  actions: SceneAction[]; // Hold actions of every gesture currently held (one per hand)
+  trigger: SceneTrigger | null; // Latest fire-once action
   handPos: { x: number; y: number };
+  handDepth: number; // Push/pull, -1 (pulled back) to 1 (leaning in), 0 at rest
+  pointer: PointerReading | null; // Pinch cursor of the primary hand
+  bimanual: BimanualReading | null;
+  wind: MotionReading | null; // Whole-frame webcam motion, when the wind input runs
+  seed: number;
+  treeShape: TreeShape; // Species, from utils/treePresets
+  shaderTuning: ShaderTuning; // Applied live, without regenerating
+  photoSources: PhotoSource[];
+  galleryLayout: GalleryLayoutId;
+  formation: FormationId; // Galaxy formation, morphed to when it changes
+  quality: QualitySettings; // Particle share and star count of the current tier
+  deadZone?: number; // Joystick rest area around the centre of handPos, from calibration
 }
 
-const Scene: React.FC<SceneProps> = ({ gesture, handPos }) => {
-  const { camera, scene } = useThree();
+const Scene: React.FC<SceneProps> = ({ actions, trigger, handPos, handDepth, pointer, bimanual, wind, seed, treeShape, shaderTuning, photoSources, galleryLayout, formation, quality, deadZone = 0.15 }) => {
+  const { camera, scene, gl } = useThree();
   const controlsRef = useRef<any>(null);
   
   // State Refs (Mutable for loop performance)
   const expansionRef = useRef(0); // 0 = Tree, 1 = Galaxy
   const hueRef = useRef(0); // Persistent Hue Rotation
+  const spinRef = useRef(0); // Extra galaxy rotation (rad) from spin gestures
+  const spinVelocityRef = useRef(0);
+  const formationRef = useRef(createFormationMorph(formation));
+  const orbitRef = useRef<GalaxyOrbit>({ rigid: 0, shear: 0 });
+  const gripRef = useRef<BimanualGrip | null>(null);
+  const pickingRef = useRef(createPolaroidPicking());
+  const burstsRef = useRef(createBurstSlots());
+  const gustRef = useRef(new THREE.Vector3()); // World-space wind lean from whole-body motion
+  const gustTemp = useMemo(() => ({ target: new THREE.Vector3(), right: new THREE.Vector3(), up: new THREE.Vector3() }), []);
   const bgRef = useRef(new THREE.Color('#05020a'));
+  const tuningRef = useRef(shaderTuning);
+  tuningRef.current = shaderTuning;
   
+  useEffect(() => {
+    requestFormation(formationRef.current, formation);
+  }, [formation]);
+
   useEffect(() => {
     camera.position.set(0, -10, 60); 
     camera.lookAt(0, 15, 0); 
   }, [camera]);
 
-  const { treeData, photos } = useMemo(() => {
-    return { 
-        treeData: generateTree({ depth: 6, branchLength: 35, startPos: new THREE.Vector3(0, -60, 0) }), 
-        photos: createPhotoData(generateTree({ depth: 6, branchLength: 35, startPos: new THREE.Vector3(0, -60, 0) }).leafNodes, 16) 
-    };
+  // The tree shown and, while they crossfade, the one it replaces. Trees grow in a worker and
+  // the polaroids must hang from the leaves of the tree that is actually rendered.
+  const [trees, setTrees] = useState<{ current: GrownTree | null; previous: GrownTree | null }>({ current: null, previous: null });
+  const generatorRef = useRef<TreeGenerator | null>(null);
+  const grownFromRef = useRef<{ seed: number; treeShape: TreeShape } | null>(null);
+  const fadeInRef = useRef(1); // 0..1: how far the current tree has replaced the previous one
+  const fadeOutRef = useRef(0);
+
+  useEffect(() => {
+    const generator = new TreeGenerator();
+    generatorRef.current = generator;
+    return () => generator.dispose();
   }, []);
 
+  // The first tree starts growing at once; a newer change cancels a tree still growing
+  useEffect(() => {
+    const generator = generatorRef.current!;
+    const grown = grownFromRef.current;
+    if (grown && grown.seed === seed && grown.treeShape === treeShape) return;
+    const timer = setTimeout(() => {
+      generator.generate(treeShape, seed, TREE_ORIGIN).then((data) => {
+        if (!data) return;
+        grownFromRef.current = { seed, treeShape };
+        setTrees(({ current }) => ({ current: { id: (current?.id ?? 0) + 1, seed, data }, previous: current }));
+        fadeInRef.current = 0;
+      }, (err) => console.warn('Could not grow the tree:', err));
+    }, grown ? REGENERATE_DELAY_MS : 0);
+    return () => {
+      clearTimeout(timer);
+      generator.cancel();
+    };
+  }, [seed, treeShape]);
+
+  const treeData = trees.current?.data ?? null;
+  const photos = useMemo(() => (trees.current ? createPhotoData(trees.current.data.leafNodes, photoSources, 16, trees.current.seed) : []), [trees.current, photoSources]);
+
+  // Picking is by index, so a new set of photos starts with nothing held or dropped
+  useEffect(() => {
+    pickingRef.current.grabbed = null;
+    pickingRef.current.dropped.clear();
+  }, [photos]);
+
+  // Carousel: the first photo step during the reveal switches to it, later steps browse
+  const isRevealed = actions.includes('revealPhotos');
+  const [carouselActive, setCarouselActive] = useState(false);
+  const [carouselStep, setCarouselStep] = useState<PhotoStep | null>(null);
+
+  useEffect(() => {
+    if (!isRevealed) setCarouselActive(false);
+  }, [isRevealed]);
+
+  const takeScreenshot = () => {
+    // Render now so the drawing buffer is still intact when we read it
+    gl.render(scene, camera);
+    gl.domElement.toBlob((blob) => {
+      if (!blob) return;
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `sakura-${seed}-${Date.now()}.png`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }, 'image/png');
+  };
+
+  // Scene-level trigger actions (App handles the ones that change UI state).
+  // Motion gestures pass their event along so direction and speed can shape the result.
+  const runTrigger = (action: SceneAction, event: MotionEvent | null) => {
+    const speed = event?.speed ?? 0;
+
+    if (action === 'screenshot') {
+      takeScreenshot();
+    } else if (action === 'spinGalaxy') {
+      // Circles spin the way they were drawn; swipes the way the hand moved
+      const sign = event ? Math.sign(event.direction.z || event.direction.x) || 1 : 1;
+      spinVelocityRef.current = THREE.MathUtils.clamp(
+        spinVelocityRef.current + sign * (SPIN_IMPULSE + speed * SPIN_SPEED_GAIN),
+        -SPIN_MAX_VELOCITY,
+        SPIN_MAX_VELOCITY
+      );
+    } else if ((action === 'nextPhoto' || action === 'prevPhoto') && isRevealed) {
+      if (carouselActive) {
+        setCarouselStep((last) => ({ id: (last?.id ?? 0) + 1, direction: action === 'nextPhoto' ? 1 : -1, speed }));
+      } else {
+        setCarouselActive(true);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (trigger) runTrigger(trigger.action, trigger.motion);
+  }, [trigger?.id]);
+
   useFrame((state, delta) => {
     // --- 1. STATE LOGIC ---
     
-    // Expansion (Fist vs Open)
+    // Expansion (collapse vs expand, by default fist vs open hand)
     let targetExpansion = expansionRef.current;
-    if (gesture === 'FIST') targetExpansion = 0;
-    if (gesture === 'OPEN_HAND') targetExpansion = 1;
+    if (actions.includes('collapse')) targetExpansion = 0;
+    if (actions.includes('expand')) targetExpansion = 1;
     // Spring/Lerp expansion
     expansionRef.current = THREE.MathUtils.lerp(expansionRef.current, targetExpansion, delta * 2.0);
 
-    // Color Cycle (1 Finger)
-    // If holding 1 finger, increment hue. The hue persists when released.
-    if (gesture === 'ONE_FINGER') {
+    // Color Cycle
+    // While the gesture is held, increment hue. The hue persists when released.
+    if (actions.includes('hueCycle')) {
         hueRef.current += delta * 0.5; // Cycle speed
     }
 
-    // Photo Reveal (2 Fingers)
-    const isRevealed = gesture === 'TWO_FINGERS';
+    // Crossfade to a regenerated tree, then let the old one go
+    if (fadeInRef.current < 1) {
+        fadeInRef.current = Math.min(1, fadeInRef.current + delta / CROSSFADE_SECONDS);
+        fadeOutRef.current = 1 - fadeInRef.current;
+        if (fadeInRef.current === 1) setTrees(({ current }) => ({ current, previous: null }));
+    }
+
+    // Galaxy spin coasts to a stop
+    spinVelocityRef.current *= Math.exp(-SPIN_FRICTION * delta);
+    spinRef.current += spinVelocityRef.current * delta;
+
+    // Orbit builds up as angles rather than from the clock, so a formation's change of motion doesn't jump
+    advanceFormationMorph(formationRef.current, delta);
+    const motion = formationMotion(formationRef.current);
+    const orbitSpeed = tuningRef.current.orbitSpeed;
+    orbitRef.current.rigid += motion.orbit * orbitSpeed * delta;
+    orbitRef.current.shear += motion.shear * orbitSpeed * delta;
 
 
     // --- 2. VISUALS ---
@@ -72,14 +244,61 @@ const Scene: React.FC<SceneProps> = ({ gesture, handPos }) => {
     scene.background = bgRef.current;
 
 
-    // --- 3. CAMERA JOYSTICK CONTROL ---
-    
-    if (controlsRef.current) {
+    // --- 3. WIND ---
+    // Motion blows the way it moved on screen, whichever way the camera faces
+
+    const gustTarget = gustTemp.target.set(0, 0, 0);
+    if (wind && wind.intensity > 0) {
+        gustTemp.right.setFromMatrixColumn(camera.matrixWorld, 0);
+        gustTemp.up.setFromMatrixColumn(camera.matrixWorld, 1);
+        gustTarget
+            .addScaledVector(gustTemp.right, wind.velocity.x)
+            .addScaledVector(gustTemp.up, wind.velocity.y)
+            .multiplyScalar(GUST.gain * wind.intensity)
+            .clampLength(0, GUST.max);
+    }
+    const gustRate = gustTarget.lengthSq() > gustRef.current.lengthSq() ? GUST.rise : GUST.calm;
+    gustRef.current.lerp(gustTarget, 1 - Math.exp(-gustRate * delta));
+
+
+    // --- 4. TWO-HAND CONTROL ---
+
+    if (bimanual && controlsRef.current) {
+        if (!gripRef.current) {
+            gripRef.current = { spread: bimanual.spread, distance: controlsRef.current.getDistance(), twist: bimanual.twist };
+        }
+        const grip = gripRef.current;
+
+        // Dolly: hands twice as far apart halves the distance, like stretching a photo
+        const targetDistance = THREE.MathUtils.clamp(
+            grip.distance * grip.spread / Math.max(bimanual.spread, 0.01),
+            MIN_DISTANCE,
+            MAX_DISTANCE
+        );
+        const offset = camera.position.clone().sub(controlsRef.current.target);
+        offset.setLength(THREE.MathUtils.lerp(offset.length(), targetDistance, Math.min(1, delta * DOLLY_SMOOTHING)));
+        camera.position.copy(controlsRef.current.target).add(offset);
+
+        // Twist: turn the galaxy by however far the palm line rotated since last frame
+        let turn = bimanual.twist - grip.twist;
+        if (turn > Math.PI) turn -= Math.PI * 2;
+        if (turn < -Math.PI) turn += Math.PI * 2;
+        spinRef.current += turn * TWIST_GAIN;
+        grip.twist = bimanual.twist;
+
+        controlsRef.current.update();
+    } else {
+        gripRef.current = null;
+    }
+
+    // --- 5. CAMERA JOYSTICK CONTROL ---
+    // Only with one hand, and not while it carries a photo; two hands steer with the controls above
+
+    if (controlsRef.current && !bimanual && pickingRef.current.grabbed === null) {
         // Dead Zone Calculation
-        // Center X/Y is 0.5, 0.5
-        // Safe Zone: 0.35 to 0.65 (30% width)
+        // Center X/Y is 0.5, 0.5 (handPos is already mapped to the calibrated reach)
+        // Safe Zone: 0.35 to 0.65 (30% width) by default
         
-        const deadZone = 0.15;
         const centerX = 0.5;
         const centerY = 0.5;
         
@@ -120,6 +339,25 @@ const Scene: React.FC<SceneProps> = ({ gesture, handPos }) => {
         
         controlsRef.current.update();
     }
+
+    // --- 6. PUSH / PULL DOLLY ---
+    // Same conditions as the joystick: leaning in dollies toward the tree, pulling back away from it
+
+    if (controlsRef.current && !bimanual && pickingRef.current.grabbed === null) {
+        // Depth spans -1..1, twice the joystick's half-range, so its dead zone doubles too
+        const depthDeadZone = deadZone * 2;
+        if (Math.abs(handDepth) > depthDeadZone) {
+            const magnitude = (Math.abs(handDepth) - depthDeadZone) / (1 - depthDeadZone); // 0..1
+            const offset = camera.position.clone().sub(controlsRef.current.target);
+            offset.setLength(THREE.MathUtils.clamp(
+                offset.length() * Math.exp(-Math.sign(handDepth) * magnitude * DEPTH_DOLLY_RATE * delta),
+                MIN_DISTANCE,
+                MAX_DISTANCE
+            ));
+            camera.position.copy(controlsRef.current.target).add(offset);
+            controlsRef.current.update();
+        }
+    }
   });
 
   return (
@@ -132,8 +370,8 @@ const Scene: React.FC<SceneProps> = ({ gesture, handPos }) => {
         enableDamping
         dampingFactor={0.05}
         enableZoom={true} 
-        maxDistance={150}
-        minDistance={20}
+        maxDistance={MAX_DISTANCE}
+        minDistance={MIN_DISTANCE}
         target={[0, 10, 0]} 
         rotateSpeed={0.5}
       />
@@ -142,26 +380,69 @@ const Scene: React.FC<SceneProps> = ({ gesture, handPos }) => {
       <pointLight position={[50, 60, 50]} intensity={1.5} color="#ffe4e1" />
       <pointLight position={[-40, 20, -40]} intensity={0.8} color="#a0b0ff" />
       
-      <Stars radius={200} depth={50} count={8000} factor={4} saturation={0} fade speed={0.5} />
+      <Stars radius={200} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={0.5} />
 
-      <SakuraTree 
-        data={treeData.wood} 
-        mode="wood" 
+      {[trees.previous, trees.current].map((tree) => tree && (
+        <React.Fragment key={tree.id}>
+          <SakuraTree 
+            data={tree.data.wood} 
+            mode="wood" 
+            expansionRef={expansionRef}
+            hueRef={hueRef}
+            spinRef={spinRef}
+            formationRef={formationRef}
+            orbitRef={orbitRef}
+            gustRef={gustRef}
+            tuningRef={tuningRef}
+            opacityRef={tree === trees.current ? fadeInRef : fadeOutRef}
+            drawFraction={quality.particles}
+            seed={tree.seed}
+          />
+
+          <SakuraTree 
+            data={tree.data.blossoms} 
+            mode="blossom" 
+            expansionRef={expansionRef}
+            hueRef={hueRef}
+            spinRef={spinRef}
+            burstsRef={tree === trees.current ? burstsRef : undefined}
+            formationRef={formationRef}
+            orbitRef={orbitRef}
+            gustRef={gustRef}
+            tuningRef={tuningRef}
+            opacityRef={tree === trees.current ? fadeInRef : fadeOutRef}
+            drawFraction={quality.particles}
+            seed={tree.seed}
+          />
+        </React.Fragment>
+      ))}
+
+      <FloatingGallery 
+        photos={photos} 
         expansionRef={expansionRef}
-        hueRef={hueRef}
+        spinRef={spinRef}
+        formationRef={formationRef}
+        orbitRef={orbitRef}
+        gustRef={gustRef}
+        tuningRef={tuningRef}
+        pickingRef={pickingRef}
+        isRevealed={isRevealed && !carouselActive}
+        layout={galleryLayout}
       />
 
-      <SakuraTree 
-        data={treeData.blossoms} 
-        mode="blossom" 
+      <PinchCursor
+        pointer={pointer}
+        pickingRef={pickingRef}
+        photos={photos}
+        leafNodes={treeData && treeData.blossoms.sizes.length > 0 ? treeData.leafNodes : []} // A bare tree has nothing to burst
         expansionRef={expansionRef}
-        hueRef={hueRef}
+        burstsRef={burstsRef}
       />
 
-      <FloatingGallery 
-        photos={photos} 
-        expansionRef={expansionRef}
-        isRevealed={gesture === 'TWO_FINGERS'}
+      <PhotoCarousel
+        sources={photoSources}
+        active={carouselActive}
+        step={carouselStep}
       />
     </>
   );
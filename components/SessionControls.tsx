@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SessionPlayer, SessionRecorder, downloadHandRecording, parseHandRecording } from '../utils/sessionRecording';
+
+interface SessionControlsProps {
+  recorder: SessionRecorder;
+  aspect: number; // Of the live video, stored with each recording
+  canRecord: boolean; // Live camera tracking is running
+  player: SessionPlayer | null;
+  onPlayerChange: (player: SessionPlayer | null) => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2];
+
+const BUTTON = "px-2 py-0.5 rounded border border-gray-700 hover:border-pink-400 hover:text-pink-200 transition-colors uppercase tracking-widest";
+
+// Record the live hand-tracking session to JSON, or load one and replay it
+const SessionControls: React.FC<SessionControlsProps> = ({ recorder, aspect, canRecord, player, onPlayerChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [, setRevision] = useState(0);
+  const refresh = () => setRevision((revision) => revision + 1);
+
+  // Playback progress lives in the player; redraw a few times a second to show it
+  useEffect(() => {
+    if (!player) return;
+    const timer = setInterval(refresh, 250);
+    return () => clearInterval(timer);
+  }, [player]);
+
+  const toggleRecording = () => {
+    if (recorder.isRecording) {
+      const recording = recorder.stop(aspect);
+      if (recording.frames.length > 0) downloadHandRecording(recording);
+    } else {
+      recorder.start();
+    }
+    refresh();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+    try {
+      onPlayerChange(new SessionPlayer(parseHandRecording(JSON.parse(await file.text()))));
+    } catch (err) {
+      console.warn(`Could not replay ${file.name}:`, err);
+    }
+  };
+
+  return (
+    <div className="absolute bottom-14 left-6 z-40 flex items-center gap-2 font-mono text-[10px] text-gray-400 select-none">
+      <span className="tracking-widest uppercase opacity-60">Session</span>
+      {player ? (
+        <>
+          <span className="text-pink-200">
+            {(player.position / 1000).toFixed(1)}s / {(player.duration / 1000).toFixed(1)}s
+          </span>
+          <button onClick={() => { player.playing = !player.playing; refresh(); }} className={BUTTON}>
+            {player.playing ? 'Pause' : 'Play'}
+          </button>
+          <button onClick={() => { player.step(); refresh(); }} className={BUTTON}>Step</button>
+          <button onClick={() => { player.restart(); refresh(); }} className={BUTTON}>Restart</button>
+          <button
+            onClick={() => {
+              player.speed = SPEEDS[(SPEEDS.indexOf(player.speed) + 1) % SPEEDS.length];
+              refresh();
+            }}
+            className={BUTTON}
+          >
+            {player.speed}×
+          </button>
+          <button onClick={() => onPlayerChange(null)} className="px-2 py-0.5 rounded border border-gray-700 hover:border-red-400 hover:text-red-300 transition-colors uppercase tracking-widest">
+            Stop Replay
+          </button>
+        </>
+      ) : (
+        <>
+          {canRecord && (
+            <button
+              onClick={toggleRecording}
+              className={recorder.isRecording ? "px-2 py-0.5 rounded border border-red-400 text-red-300 uppercase tracking-widest animate-pulse" : BUTTON}
+            >
+              {recorder.isRecording ? '● Stop & Save' : 'Record'}
+            </button>
+          )}
+          {!recorder.isRecording && (
+            <button onClick={() => fileInputRef.current?.click()} className={BUTTON}>Replay</button>
+          )}
+        </>
+      )}
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+    </div>
+  );
+};
+
+export default SessionControls;
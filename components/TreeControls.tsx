@@ -0,0 +1,51 @@
+import React, { useRef } from 'react';
+import { TreePreset, downloadTreePreset, parseTreePresets } from '../utils/treePresets';
+
+interface TreeControlsProps {
+  seed: number;
+  onNewSeed: () => void;
+  presets: TreePreset[];
+  preset: TreePreset;
+  onSelect: (id: string) => void;
+  onLoad: (presets: TreePreset[]) => void; // From a JSON file; the first one is selected
+}
+
+const BUTTON = "px-2 py-0.5 rounded border border-gray-700 hover:border-pink-400 hover:text-pink-200 transition-colors uppercase tracking-widest";
+const SELECT = "bg-transparent px-1 py-0.5 rounded border border-gray-700 hover:border-pink-400 text-gray-300 uppercase tracking-widest outline-none max-w-[12rem]";
+
+// Seed and species of the tree; share the URL to restore this exact tree
+const TreeControls: React.FC<TreeControlsProps> = ({ seed, onNewSeed, presets, preset, onSelect, onLoad }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+    try {
+      const loaded = parseTreePresets(JSON.parse(await file.text()));
+      if (loaded.length > 0) onLoad(loaded);
+      else console.warn(`No usable tree presets in ${file.name}`);
+    } catch (err) {
+      console.warn(`Could not load tree presets from ${file.name}:`, err);
+    }
+  };
+
+  return (
+    <div className="absolute bottom-6 left-6 z-40 flex items-center gap-2 font-mono text-[10px] text-gray-400 select-none">
+      <span className="tracking-widest uppercase opacity-60">Seed</span>
+      <span className="text-pink-200">{seed}</span>
+      <button onClick={onNewSeed} className={BUTTON}>New Tree</button>
+      <span className="tracking-widest uppercase opacity-60 ml-2">Species</span>
+      <select value={preset.id} onChange={(e) => onSelect(e.target.value)} className={SELECT}>
+        {presets.map(({ id, name }) => (
+          <option key={id} value={id} className="bg-gray-900">{name}</option>
+        ))}
+      </select>
+      <button onClick={() => fileInputRef.current?.click()} className={BUTTON} title="Load species presets from JSON">Load</button>
+      <button onClick={() => downloadTreePreset(preset)} className={BUTTON} title="Save this species as JSON">Save</button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+    </div>
+  );
+};
+
+export default TreeControls;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { ParamRange, ShaderTuning, TreeShape } from '../types';
+import {
+  ParamLimits,
+  SHADER_PARAM_LIMITS,
+  TREE_PARAM_LIMITS,
+  TreePreset,
+  downloadTreePreset,
+  fitTreeBudget,
+  parseTreePreset,
+} from '../utils/treePresets';
+
+export interface TreeTuning {
+  params: TreeShape;
+  shader: ShaderTuning;
+}
+
+interface TuningPanelProps {
+  preset: TreePreset; // What the values started from
+  tuning: TreeTuning;
+  onChange: (tuning: TreeTuning) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const BUTTON = "px-2 py-0.5 rounded border border-gray-700 hover:border-pink-400 hover:text-pink-200 transition-colors uppercase tracking-widest";
+
+const decimals = (step: number) => (String(step).split('.')[1] ?? '').length;
+
+const Slider: React.FC<{ label: string; limits: ParamLimits; value: number; onChange: (value: number) => void }> = ({ label, limits, value, onChange }) => (
+  <label className="grid grid-cols-[7rem_1fr_2.5rem] items-center gap-2">
+    <span className="truncate">{label}</span>
+    <input
+      type="range"
+      min={limits.min}
+      max={limits.max}
+      step={limits.step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="accent-pink-400"
+    />
+    <span className="text-right text-pink-200">{value.toFixed(decimals(limits.step))}</span>
+  </label>
+);
+
+// Developer panel: generation parameters regrow the tree (it crossfades in), shader values apply at once
+const TuningPanel: React.FC<TuningPanelProps> = ({ preset, tuning, onChange, onReset, onClose }) => {
+  const [name, setName] = useState(`${preset.name} Tuned`);
+  const [notice, setNotice] = useState<string | null>(null);
+  const { params, shader } = tuning;
+
+  const setParams = (next: TreeShape) => {
+    const warnings: string[] = [];
+    const fitted = fitTreeBudget(next, (message) => warnings.push(message));
+    setNotice(warnings[0] ?? null);
+    onChange({ params: fitted, shader });
+  };
+
+  const setRangeEnd = (key: keyof TreeShape, end: 0 | 1, value: number) => {
+    const range = [...(params[key] as ParamRange)] as ParamRange;
+    range[end] = value;
+    // Dragging one end past the other pushes it along
+    if (range[0] > range[1]) range[1 - end] = value;
+    setParams({ ...params, [key]: range });
+  };
+
+  const exportPreset = () => {
+    if (!name.trim()) return;
+    downloadTreePreset(parseTreePreset({ name, params, shader }));
+  };
+
+  return (
+    <div className="absolute top-4 right-4 bottom-4 z-[60] w-80 overflow-y-auto rounded border border-gray-700 bg-black/85 p-4 font-mono text-[10px] text-gray-400 select-none">
+      <div className="flex items-center justify-between mb-3">
+        <span className="tracking-widest uppercase text-pink-300">Tuning · {preset.name}</span>
+        <button onClick={onClose} className={BUTTON} title="Alt+Shift+D">Close</button>
+      </div>
+
+      <div className="tracking-widest uppercase opacity-60 mb-1">Shader</div>
+      <div className="flex flex-col gap-1 mb-4">
+        {(Object.keys(SHADER_PARAM_LIMITS) as (keyof ShaderTuning)[]).map((key) => (
+          <Slider
+            key={key}
+            label={SHADER_PARAM_LIMITS[key].label}
+            limits={SHADER_PARAM_LIMITS[key]}
+            value={shader[key]}
+            onChange={(value) => onChange({ params, shader: { ...shader, [key]: value } })}
+          />
+        ))}
+      </div>
+
+      <div className="tracking-widest uppercase opacity-60 mb-1">Tree</div>
+      <div className="flex flex-col gap-1 mb-2">
+        {(Object.keys(TREE_PARAM_LIMITS) as (keyof typeof TREE_PARAM_LIMITS)[]).map((key) => {
+          const limits = TREE_PARAM_LIMITS[key];
+          const value = params[key];
+          return Array.isArray(value) ? (
+            <React.Fragment key={key}>
+              <Slider label={`${limits.label} Min`} limits={limits} value={value[0]} onChange={(v) => setRangeEnd(key, 0, v)} />
+              <Slider label={`${limits.label} Max`} limits={limits} value={value[1]} onChange={(v) => setRangeEnd(key, 1, v)} />
+            </React.Fragment>
+          ) : (
+            <Slider key={key} label={limits.label} limits={limits} value={value} onChange={(v) => setParams({ ...params, [key]: v })} />
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-2 mb-1">
+        <span className="w-28">Wood</span>
+        <input type="color" value={params.woodColor} onChange={(e) => setParams({ ...params, woodColor: e.target.value })} className="h-4 w-8 bg-transparent" />
+        <input type="color" value={params.woodHighlight} onChange={(e) => setParams({ ...params, woodHighlight: e.target.value })} className="h-4 w-8 bg-transparent" />
+      </div>
+      <div className="flex items-center gap-2 mb-3">
+        <span className="w-28">Blossoms</span>
+        {params.blossomColors.map((color, i) => (
+          <input
+            key={i}
+            type="color"
+            value={color}
+            onChange={(e) => setParams({ ...params, blossomColors: params.blossomColors.map((c, j) => (j === i ? e.target.value : c)) })}
+            className="h-4 w-6 bg-transparent"
+          />
+        ))}
+      </div>
+
+      {notice && <div className="mb-3 text-yellow-300">{notice}</div>}
+
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 min-w-0 bg-transparent px-1 py-0.5 rounded border border-gray-700 focus:border-pink-400 text-gray-200 outline-none"
+          placeholder="Preset name"
+        />
+        <button onClick={exportPreset} className={BUTTON} title="Download these values as a preset file">Export</button>
+        <button onClick={onReset} className={BUTTON}>Reset</button>
+      </div>
+    </div>
+  );
+};
+
+export default TuningPanel;
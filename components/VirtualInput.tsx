@@ -0,0 +1,50 @@
+
+import React, { useEffect } from 'react';
+import { HandUpdate, Handedness, MotionEvent } from '../types';
+import { GestureEvent } from '../utils/gestureRecognizer';
+import { INPUT_PROVIDERS, InputId, isProviderInput } from '../utils/inputProviders';
+import { VirtualHand } from '../utils/virtualHand';
+
+interface VirtualInputProps {
+  inputs: InputId[]; // Webcam inputs have their own components and are ignored here
+  onUpdate: (data: HandUpdate) => void;
+  onMotion?: (event: MotionEvent, hand: Handedness) => void;
+  onGestureStart?: (event: GestureEvent, hand: Handedness) => void;
+  onGestureHold?: (event: GestureEvent, hand: Handedness) => void;
+  onGestureEnd?: (event: GestureEvent, hand: Handedness) => void;
+}
+
+// Camera-free counterpart of HandTracker: same callbacks, fed by keyboard, mouse and touch
+const VirtualInput: React.FC<VirtualInputProps> = ({ inputs, onUpdate, onMotion, onGestureStart, onGestureHold, onGestureEnd }) => {
+  const inputKey = inputs.join(',');
+
+  useEffect(() => {
+    const hand = new VirtualHand();
+    const detach = inputs.filter(isProviderInput).map((id) => INPUT_PROVIDERS[id](hand));
+
+    let frameId = 0;
+    const loop = (now: number) => {
+      const frame = hand.frame(now);
+      if (frame) {
+        frame.events.forEach((event) => {
+          if (event.type === 'start') onGestureStart?.(event, 'Right');
+          else if (event.type === 'hold') onGestureHold?.(event, 'Right');
+          else onGestureEnd?.(event, 'Right');
+        });
+        frame.motions.forEach((event) => onMotion?.(event, 'Right'));
+        onUpdate(frame.update);
+      }
+      frameId = requestAnimationFrame(loop);
+    };
+    frameId = requestAnimationFrame(loop);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      detach.forEach((stop) => stop());
+    };
+  }, [inputKey, onUpdate, onMotion, onGestureStart, onGestureHold, onGestureEnd]);
+
+  return null;
+};
+
+export default VirtualInput;
@@ -0,0 +1,35 @@
+// Downloads MediaPipe's hand landmarker model into public/models, where Vite serves
+// and bundles it. Run once while online; after that tracking works without a network.
+//
+//   node scripts/fetch-hand-model.mjs [--optional]
+//
+// --optional (used by postinstall) warns instead of failing, so an offline install still completes.
+
+import { existsSync } from 'node:fs';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const target = resolve(dirname(fileURLToPath(import.meta.url)), '../public/models/hand_landmarker.task');
+const optional = process.argv.includes('--optional');
+
+if (existsSync(target)) {
+  console.log(`Hand model already at ${target}`);
+} else {
+  try {
+    const response = await fetch(MODEL_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const model = Buffer.from(await response.arrayBuffer());
+
+    // Write then rename, so an interrupted download never looks like a model
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(`${target}.part`, model);
+    await rename(`${target}.part`, target);
+    console.log(`Hand model saved to ${target} (${(model.length / 1e6).toFixed(1)} MB)`);
+  } catch (e) {
+    console.warn(`Could not download the hand model from ${MODEL_URL}: ${e instanceof Error ? e.message : e}`);
+    console.warn(`Copy hand_landmarker.task to ${target} by hand, or run "npm run fetch-model" once online.`);
+    if (!optional) process.exit(1);
+  }
+}
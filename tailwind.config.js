@@ -0,0 +1,9 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  // Class names also live in utils (e.g. the gesture chip colours in gestureBindings.ts)
+  content: ['./index.html', './App.tsx', './components/**/*.tsx', './utils/**/*.ts'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { CalibrationSample, DEFAULT_CALIBRATION, deriveCalibration, mapToDepth, mapToReach, sampleHand } from '../utils/calibration';
+import { classifyHand } from '../utils/handPose';
+import { HAND_FIXTURES, buildHand, poseNamed } from './fixtures/handLandmarks';
+
+const ASPECT = 4 / 3;
+
+// A hand held still at `center`, wobbling by up to `wobble` either way
+const held = (name: string, center: { x: number; y: number }, wobble = 0.002, frames = 45): CalibrationSample[] =>
+  Array.from({ length: frames }, (_, i) =>
+    sampleHand(
+      buildHand(poseNamed(name).fingers, {
+        center: { x: center.x + wobble * Math.sin(i), y: center.y + wobble * Math.cos(i * 1.3) },
+      }),
+      ASPECT
+    )
+  );
+
+// Palm positions sweeping a rectangle's outline
+const traced = (left: number, right: number, top: number, bottom: number) =>
+  Array.from({ length: 200 }, (_, i) => {
+    const t = (i / 200) * 4;
+    const side = Math.floor(t);
+    const f = t - side;
+    return [
+      { x: left + (right - left) * f, y: top },
+      { x: right, y: top + (bottom - top) * f },
+      { x: right - (right - left) * f, y: bottom },
+      { x: left, y: bottom - (bottom - top) * f },
+    ][side];
+  });
+
+describe('deriveCalibration', () => {
+  // Wrist at (0.4, 0.75) in the raw frame puts the palm about 0.6 across the mirrored one
+  const open = held('open hand', { x: 0.4, y: 0.75 });
+  const fist = held('fist', { x: 0.4, y: 0.75 });
+
+  it('puts the thresholds between the open hand and the fist', () => {
+    const { pose } = deriveCalibration({ open, fist, reach: [] });
+    const maxOpen = Math.max(...open.flatMap((s) => [s.bend.index, s.bend.middle, s.bend.ring, s.bend.pinky]));
+    const minFist = Math.min(...fist.flatMap((s) => [s.bend.index, s.bend.middle, s.bend.ring, s.bend.pinky]));
+    expect(pose.fingerBendDeg).toBeGreaterThan(maxOpen);
+    expect(pose.fingerBendDeg).toBeLessThan(minFist);
+    expect(pose.thumbBendDeg).toBeGreaterThan(Math.max(...open.map((s) => s.bend.thumb)));
+    expect(pose.thumbBendDeg).toBeLessThan(Math.min(...fist.map((s) => s.bend.thumb)));
+    expect(pose.thumbReach).toBe(DEFAULT_CALIBRATION.pose.thumbReach); // The fixture's folded thumb is as far out as the open one
+  });
+
+  it('still reads every labelled pose with the derived thresholds', () => {
+    const { pose } = deriveCalibration({ open, fist, reach: [] });
+    HAND_FIXTURES.forEach(({ hand, handedness, fingers, label }) => {
+      expect(classifyHand(hand.worldLandmarks!, handedness, pose).fingers, label).toEqual(fingers);
+    });
+  });
+
+  it('keeps the default thresholds when the poses overlap', () => {
+    const { pose } = deriveCalibration({ open, fist: open, reach: [] });
+    expect(pose).toEqual(DEFAULT_CALIBRATION.pose);
+  });
+
+  it('centres the joystick on the resting hand and spans the traced reach', () => {
+    const calibration = deriveCalibration({ open, fist, reach: traced(0.3, 0.9, 0.2, 0.85) });
+    expect(calibration.center.x).toBeCloseTo(open[0].palm.x, 2);
+    expect(calibration.center.y).toBeCloseTo(open[0].palm.y, 2);
+    expect(calibration.reach.left).toBeCloseTo(0.3, 1);
+    expect(calibration.reach.right).toBeCloseTo(0.9, 1);
+    expect(calibration.reach.top).toBeCloseTo(0.2, 1);
+    expect(calibration.reach.bottom).toBeCloseTo(0.85, 1);
+
+    const { center, reach } = calibration;
+    expect(mapToReach(center, calibration)).toEqual({ x: 0.5, y: 0.5 });
+    expect(mapToReach({ x: reach.left, y: reach.top }, calibration)).toEqual({ x: 0, y: 0 });
+    expect(mapToReach({ x: reach.right, y: reach.bottom }, calibration)).toEqual({ x: 1, y: 1 });
+    expect(mapToReach({ x: 1.2, y: -0.3 }, calibration)).toEqual({ x: 1, y: 0 });
+  });
+
+  it('leaves room on every side when the reach barely moved', () => {
+    const { center, reach } = deriveCalibration({ open, fist, reach: traced(0.58, 0.62, 0.5, 0.52) });
+    expect(center.x - reach.left).toBeGreaterThanOrEqual(0.1 - 1e-9);
+    expect(reach.right - center.x).toBeGreaterThanOrEqual(0.1 - 1e-9);
+    expect(reach.bottom - center.y).toBeGreaterThanOrEqual(0.1 - 1e-9);
+  });
+
+  it('smooths a shaky hand more and gives it a wider dead zone', () => {
+    const reach = traced(0.3, 0.9, 0.2, 0.85);
+    const steady = deriveCalibration({ open, fist, reach });
+    const shaky = deriveCalibration({ open: held('open hand', { x: 0.4, y: 0.75 }, 0.02), fist, reach });
+    expect(shaky.smoothing).toBeLessThan(steady.smoothing);
+    expect(shaky.deadZone).toBeGreaterThan(steady.deadZone);
+  });
+
+  it('records the resting palm size for push/pull', () => {
+    const { restPalmSize } = deriveCalibration({ open, fist, reach: [] });
+    expect(restPalmSize).toBeCloseTo(open[0].palmSize, 3);
+    expect(mapToDepth(restPalmSize!, restPalmSize!)).toBe(0);
+    expect(mapToDepth(restPalmSize! * 1.2, restPalmSize!)).toBeGreaterThan(0);
+    expect(mapToDepth(restPalmSize! / 1.2, restPalmSize!)).toBeLessThan(0);
+    expect(mapToDepth(restPalmSize! * 3, restPalmSize!)).toBe(1);
+  });
+
+  it('falls back to the defaults without samples', () => {
+    expect(deriveCalibration({ open: [], fist: [], reach: [] })).toEqual(DEFAULT_CALIBRATION);
+  });
+});
@@ -0,0 +1,188 @@
+import { FingerName, Landmark } from '../../utils/handPose';
+import { RawHand } from '../../utils/handPipeline';
+import { Gesture, Handedness } from '../../types';
+
+// Labelled MediaPipe-style landmarks, built from a simple articulated hand so every
+// pose can be checked at any orientation, for either hand, without a webcam.
+//
+// The model is a right hand in the raw (unmirrored) camera frame, palm toward the
+// camera, fingers up: x right, y down, z away from the camera, in metres from the
+// wrist. Left hands are its mirror image.
+
+type Vec3 = [number, number, number];
+
+const KNUCKLES: Record<Exclude<FingerName, 'thumb'>, Vec3> = {
+  index: [0.026, -0.085, 0],
+  middle: [0.004, -0.09, 0],
+  ring: [-0.016, -0.085, 0.002],
+  pinky: [-0.034, -0.075, 0.004],
+};
+
+const SEGMENTS: Record<FingerName, [number, number, number]> = {
+  thumb: [0.034, 0.03, 0.026],
+  index: [0.04, 0.025, 0.021],
+  middle: [0.044, 0.028, 0.022],
+  ring: [0.041, 0.027, 0.021],
+  pinky: [0.032, 0.02, 0.018],
+};
+
+// Bend at each joint (MCP, PIP, DIP) in degrees, curling toward the palm
+const EXTENDED_BENDS = [6, 5, 4];
+const CURLED_BENDS = [80, 100, 60];
+
+const THUMB_BASE: Vec3 = [0.022, -0.022, -0.008];
+const THUMB_EXTENDED: Vec3[] = [[0.75, -0.62, -0.2], [0.72, -0.66, -0.2], [0.7, -0.7, -0.18]];
+const THUMB_FOLDED: Vec3[] = [[0.35, -0.85, -0.4], [-0.45, -0.55, -0.7], [-0.85, -0.1, -0.5]];
+
+const add = (a: Vec3, b: Vec3, scale = 1): Vec3 => [a[0] + b[0] * scale, a[1] + b[1] * scale, a[2] + b[2] * scale];
+const normalize = (v: Vec3): Vec3 => {
+  const length = Math.hypot(v[0], v[1], v[2]);
+  return [v[0] / length, v[1] / length, v[2] / length];
+};
+
+// The 21 model points, in MediaPipe's landmark order
+const modelHand = (fingers: Record<FingerName, boolean>): Vec3[] => {
+  const points: Vec3[] = [[0, 0, 0]];
+
+  let joint = THUMB_BASE;
+  points.push(joint);
+  (fingers.thumb ? THUMB_EXTENDED : THUMB_FOLDED).forEach((direction, i) => {
+    joint = add(joint, normalize(direction), SEGMENTS.thumb[i]);
+    points.push(joint);
+  });
+
+  (['index', 'middle', 'ring', 'pinky'] as const).forEach((name) => {
+    let point = KNUCKLES[name];
+    let angle = 0;
+    points.push(point);
+    (fingers[name] ? EXTENDED_BENDS : CURLED_BENDS).forEach((bend, i) => {
+      angle += (bend * Math.PI) / 180;
+      point = add(point, [0, -Math.cos(angle), -Math.sin(angle)], SEGMENTS[name][i]);
+      points.push(point);
+    });
+  });
+
+  return points;
+};
+
+export interface HandOrientation {
+  name: string;
+  roll: number; // Degrees, clockwise in the image, about the wrist
+  yaw: number; // Degrees, turning the palm away from the camera
+}
+
+export const ORIENTATIONS: HandOrientation[] = [
+  { name: 'upright', roll: 0, yaw: 0 },
+  { name: 'tilted', roll: 35, yaw: 0 },
+  { name: 'tilted the other way', roll: -50, yaw: 0 },
+  { name: 'sideways', roll: 90, yaw: 0 },
+  { name: 'upside down', roll: 180, yaw: 0 },
+  { name: 'turned', roll: 0, yaw: 35 },
+  { name: 'tilted and turned', roll: -30, yaw: -30 },
+];
+
+export interface BuildOptions {
+  handedness?: Handedness; // The person's hand
+  orientation?: HandOrientation;
+  center?: { x: number; y: number }; // Wrist position in normalised image coordinates
+  scale?: number; // Image heights per metre
+  aspect?: number; // Video width / height
+  score?: number;
+  world?: boolean; // Include world landmarks (MediaPipe always does; false tests the image fallback)
+}
+
+// One hand as MediaPipe would report it for the raw camera frame
+export const buildHand = (fingers: Record<FingerName, boolean>, options: BuildOptions = {}): RawHand => {
+  const {
+    handedness = 'Right',
+    orientation = ORIENTATIONS[0],
+    center = { x: 0.5, y: 0.7 },
+    scale = 2.5,
+    aspect = 4 / 3,
+    score = 0.95,
+    world = true,
+  } = options;
+
+  const roll = (orientation.roll * Math.PI) / 180;
+  const yaw = (orientation.yaw * Math.PI) / 180;
+
+  const posed = modelHand(fingers).map(([x, y, z]): Vec3 => {
+    // Mirror for a left hand, turn about the vertical, then roll in the image plane
+    const mx = handedness === 'Left' ? -x : x;
+    const tx = mx * Math.cos(yaw) + z * Math.sin(yaw);
+    const tz = -mx * Math.sin(yaw) + z * Math.cos(yaw);
+    return [tx * Math.cos(roll) - y * Math.sin(roll), tx * Math.sin(roll) + y * Math.cos(roll), tz];
+  });
+
+  // World landmarks are centred on the hand, image landmarks placed in the frame
+  const middle = posed[9];
+  const worldLandmarks: Landmark[] = posed.map(([x, y, z]) => ({ x: x - middle[0] / 2, y: y - middle[1] / 2, z: z - middle[2] / 2 }));
+  const landmarks: Landmark[] = posed.map(([x, y, z]) => ({
+    x: center.x + (x * scale) / aspect,
+    y: center.y + y * scale,
+    z: (z * scale) / aspect,
+  }));
+
+  return {
+    landmarks,
+    ...(world ? { worldLandmarks } : {}),
+    // MediaPipe assumes a mirrored selfie image, so it names the raw frame's hands the other way round
+    label: handedness === 'Right' ? 'Left' : 'Right',
+    score,
+  };
+};
+
+const fingersOf = (...extended: FingerName[]): Record<FingerName, boolean> => ({
+  thumb: extended.includes('thumb'),
+  index: extended.includes('index'),
+  middle: extended.includes('middle'),
+  ring: extended.includes('ring'),
+  pinky: extended.includes('pinky'),
+});
+
+export interface PoseFixture {
+  name: string;
+  fingers: Record<FingerName, boolean>;
+  count: number;
+  gesture: Gesture;
+}
+
+export const POSES: PoseFixture[] = [
+  { name: 'fist', fingers: fingersOf(), count: 0, gesture: 'FIST' },
+  { name: 'open hand', fingers: fingersOf('thumb', 'index', 'middle', 'ring', 'pinky'), count: 5, gesture: 'OPEN_HAND' },
+  { name: 'index finger', fingers: fingersOf('index'), count: 1, gesture: 'ONE_FINGER' },
+  { name: 'peace sign', fingers: fingersOf('index', 'middle'), count: 2, gesture: 'TWO_FINGERS' },
+  { name: 'thumb up', fingers: fingersOf('thumb'), count: 1, gesture: 'COUNT_1' },
+  { name: 'pinky alone', fingers: fingersOf('pinky'), count: 1, gesture: 'COUNT_1' },
+  { name: 'shaka', fingers: fingersOf('thumb', 'pinky'), count: 2, gesture: 'COUNT_2' },
+  { name: 'L shape', fingers: fingersOf('thumb', 'index'), count: 2, gesture: 'COUNT_2' },
+  { name: 'three fingers', fingers: fingersOf('index', 'middle', 'ring'), count: 3, gesture: 'COUNT_3' },
+  { name: 'thumb-first three', fingers: fingersOf('thumb', 'index', 'middle'), count: 3, gesture: 'COUNT_3' },
+  { name: 'four fingers', fingers: fingersOf('index', 'middle', 'ring', 'pinky'), count: 4, gesture: 'COUNT_4' },
+];
+
+export const poseNamed = (name: string) => {
+  const pose = POSES.find((candidate) => candidate.name === name);
+  if (!pose) throw new Error(`No pose fixture "${name}"`);
+  return pose;
+};
+
+export interface HandFixture extends PoseFixture {
+  label: string; // Human-readable test name
+  handedness: Handedness;
+  orientation: HandOrientation;
+  hand: RawHand;
+}
+
+// Every pose, for both hands, at every orientation
+export const HAND_FIXTURES: HandFixture[] = POSES.flatMap((pose) =>
+  (['Right', 'Left'] as Handedness[]).flatMap((handedness) =>
+    ORIENTATIONS.map((orientation) => ({
+      ...pose,
+      label: `${pose.name}, ${handedness.toLowerCase()} hand, ${orientation.name}`,
+      handedness,
+      orientation,
+      hand: buildHand(pose.fingers, { handedness, orientation }),
+    }))
+  )
+);
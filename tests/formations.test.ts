@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import {
+  FORMATIONS,
+  MORPHED_FORMATIONS,
+  advanceFormationMorph,
+  createFormationMorph,
+  createFormationSampler,
+  createFormationTargets,
+  formationMotion,
+  requestFormation,
+} from '../utils/formations';
+import { createRng } from '../utils/random';
+
+describe('formation morph', () => {
+  it('morphs from the current formation to the new one', () => {
+    const morph = createFormationMorph('spiral');
+    requestFormation(morph, 'heart');
+    expect(morph).toMatchObject({ from: 'spiral', to: 'heart', progress: 0 });
+    advanceFormationMorph(morph, 10);
+    expect(morph.progress).toBe(1);
+  });
+
+  it('queues a formation picked mid-morph, keeping only the latest', () => {
+    const morph = createFormationMorph('spiral');
+    requestFormation(morph, 'heart');
+    advanceFormationMorph(morph, 0.5);
+    requestFormation(morph, 'torus');
+    requestFormation(morph, 'helix');
+    expect(morph).toMatchObject({ from: 'spiral', to: 'heart', next: 'helix' });
+
+    advanceFormationMorph(morph, 10);
+    advanceFormationMorph(morph, 0.1);
+    expect(morph).toMatchObject({ from: 'heart', to: 'helix', progress: 0, next: null });
+  });
+
+  it('drops a queued formation when the one in progress is picked again', () => {
+    const morph = createFormationMorph('spiral');
+    requestFormation(morph, 'heart');
+    requestFormation(morph, 'torus');
+    requestFormation(morph, 'heart');
+    expect(morph.next).toBeNull();
+  });
+
+  it('blends how the galaxy turns along with its shape', () => {
+    const morph = createFormationMorph('spiral');
+    expect(formationMotion(morph)).toEqual({ orbit: 1, shear: 0 });
+    requestFormation(morph, 'shell');
+    advanceFormationMorph(morph, 1);
+    const halfway = formationMotion(morph);
+    expect(halfway.orbit).toBeCloseTo(0.5);
+    expect(halfway.shear).toBeCloseTo(0.5);
+  });
+});
+
+describe('formation targets', () => {
+  it('gives every formation but the shell its own buffer', () => {
+    const targets = createFormationTargets(500, 7);
+    expect(Object.keys(targets).sort()).toEqual([...MORPHED_FORMATIONS].sort());
+    expect(FORMATIONS.map(({ id }) => id)).toEqual(expect.arrayContaining(['shell', ...MORPHED_FORMATIONS]));
+    Object.values(targets).forEach((array) => {
+      expect(array).toHaveLength(1500);
+      expect(array.every(Number.isFinite)).toBe(true);
+    });
+    expect(createFormationTargets(500, 7)).toEqual(targets);
+  });
+
+  it('builds the same structure for the photos as for the blossoms', () => {
+    // Same seed, same clumps: the same draw lands on the same point
+    const a = createFormationSampler('nebula', 7);
+    const b = createFormationSampler('nebula', 7);
+    expect(a(createRng(1), new THREE.Vector3())).toEqual(b(createRng(1), new THREE.Vector3()));
+  });
+});
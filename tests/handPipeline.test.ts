@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+import { HandPipeline, PipelineOutput, RawHand, poseToGesture } from '../utils/handPipeline';
+import { SessionPlayer, SessionRecorder, parseHandRecording } from '../utils/sessionRecording';
+import { HAND_FIXTURES, POSES, buildHand, poseNamed } from './fixtures/handLandmarks';
+
+const ASPECT = 4 / 3;
+const FRAME_MS = 33;
+
+// Feed the same hands for `ms` of 30 fps video; returns every frame's output
+const hold = (pipeline: HandPipeline, hands: RawHand[], ms: number, start = 0) => {
+  const outputs: PipelineOutput[] = [];
+  for (let t = start; t <= start + ms; t += FRAME_MS) outputs.push(pipeline.process(hands, t));
+  return outputs;
+};
+
+const last = <T,>(items: T[]) => items[items.length - 1];
+
+describe('poseToGesture', () => {
+  it.each(POSES)('maps $name to $gesture', ({ fingers, count, gesture }) => {
+    expect(poseToGesture({ fingers, count })).toBe(gesture);
+  });
+});
+
+describe('HandPipeline', () => {
+  describe.each(HAND_FIXTURES)('$label', ({ hand, handedness, gesture, count }) => {
+    it(`settles on ${gesture}`, () => {
+      const outputs = hold(new HandPipeline(ASPECT), [hand], 600);
+      const { update } = last(outputs);
+
+      expect(update.gesture).toBe(gesture);
+      expect(update.fingerCount).toBe(count);
+      expect(update.hands).toHaveLength(1);
+      expect(update.hands[0].handedness).toBe(handedness);
+
+      const starts = outputs.flatMap((output) => output.gestureEvents).filter(({ event }) => event.type === 'start');
+      expect(starts.map(({ event, hand: eventHand }) => [event.gesture, eventHand])).toEqual([[gesture, handedness]]);
+    });
+  });
+
+  it('classifies from image landmarks when world landmarks are missing', () => {
+    const hand = buildHand(poseNamed('three fingers').fingers, { world: false });
+    expect(last(hold(new HandPipeline(ASPECT), [hand], 600)).update.gesture).toBe('COUNT_3');
+  });
+
+  it('debounces: a single stray frame does not change the gesture', () => {
+    const pipeline = new HandPipeline(ASPECT);
+    const open = buildHand(poseNamed('open hand').fingers);
+    const fist = buildHand(poseNamed('fist').fingers);
+
+    hold(pipeline, [open], 600);
+    const glitch = pipeline.process([fist], 633);
+    const after = hold(pipeline, [open], 300, 666);
+
+    expect(glitch.update.gesture).toBe('OPEN_HAND');
+    expect(after.every((output) => output.update.gesture === 'OPEN_HAND')).toBe(true);
+    expect([glitch, ...after].flatMap((output) => output.gestureEvents).filter(({ event }) => event.type !== 'hold')).toEqual([]);
+  });
+
+  it('switches gesture once the new pose is held', () => {
+    const pipeline = new HandPipeline(ASPECT);
+    hold(pipeline, [buildHand(poseNamed('open hand').fingers)], 600);
+    const outputs = hold(pipeline, [buildHand(poseNamed('fist').fingers)], 600, 633);
+
+    expect(last(outputs).update.gesture).toBe('FIST');
+    const events = outputs.flatMap((output) => output.gestureEvents).filter(({ event }) => event.type !== 'hold');
+    expect(events.map(({ event }) => `${event.type} ${event.gesture}`)).toEqual(['end OPEN_HAND', 'start FIST']);
+  });
+
+  it('keeps the gesture through a short dropout, then lets go', () => {
+    const pipeline = new HandPipeline(ASPECT);
+    hold(pipeline, [buildHand(poseNamed('peace sign').fingers)], 600);
+
+    const brief = pipeline.process([], 800);
+    expect(brief.update.gesture).toBe('TWO_FINGERS');
+    expect(brief.update.isTracking).toBe(false);
+    expect(brief.update.hands[0].isTracking).toBe(false);
+
+    const gone = pipeline.process([], 1400);
+    expect(gone.update.gesture).toBe('NONE');
+    expect(gone.update.hands).toEqual([]);
+    expect(gone.gestureEvents.map(({ event }) => event.type)).toEqual(['end']);
+  });
+
+  it('mirrors and smooths the palm position', () => {
+    const pipeline = new HandPipeline(ASPECT);
+    const hand = buildHand(poseNamed('open hand').fingers, { center: { x: 0.2, y: 0.8 } });
+    const palm = hand.landmarks[9];
+
+    const first = pipeline.process([hand], 0).update.position;
+    expect(first.x).toBeCloseTo(0.5 + (1 - palm.x - 0.5) * 0.25, 5); // A quarter of the way from the centre
+    expect(first.y).toBeCloseTo(0.5 + (palm.y - 0.5) * 0.25, 5);
+
+    const settled = last(hold(pipeline, [hand], 1000, FRAME_MS)).update.position;
+    expect(settled.x).toBeCloseTo(1 - palm.x, 3);
+    expect(settled.y).toBeCloseTo(palm.y, 3);
+  });
+
+  it('reports a larger palm size for a nearer hand', () => {
+    const size = (scale: number) =>
+      last(hold(new HandPipeline(ASPECT), [buildHand(poseNamed('open hand').fingers, { scale })], 600)).update.palmSize!;
+    expect(size(3)).toBeGreaterThan(size(2.5) * 1.15);
+    expect(last(hold(new HandPipeline(ASPECT), [], 100)).update.palmSize).toBeNull();
+  });
+
+  it('reports the pinch cursor between thumb and index tips', () => {
+    const hand = buildHand(poseNamed('open hand').fingers);
+    const { pointer } = last(hold(new HandPipeline(ASPECT), [hand], 1000)).update;
+    expect(pointer).not.toBeNull();
+    expect(pointer!.x).toBeCloseTo(1 - (hand.landmarks[4].x + hand.landmarks[8].x) / 2, 3);
+    expect(pointer!.pinching).toBe(false);
+  });
+
+  describe('two hands', () => {
+    const left = buildHand(poseNamed('fist').fingers, { handedness: 'Left', center: { x: 0.75, y: 0.7 } });
+    const right = buildHand(poseNamed('open hand').fingers, { handedness: 'Right', center: { x: 0.25, y: 0.7 } });
+
+    it('tracks each hand with its own gesture, right hand primary', () => {
+      const { update } = last(hold(new HandPipeline(ASPECT), [left, right], 600));
+      expect(update.hands.map((reading) => [reading.handedness, reading.gesture])).toEqual([['Left', 'FIST'], ['Right', 'OPEN_HAND']]);
+      expect(update.gesture).toBe('OPEN_HAND');
+    });
+
+    it('measures spread and twist between the palms', () => {
+      const { update } = last(hold(new HandPipeline(ASPECT), [left, right], 1500));
+      const [l, r] = update.hands;
+      expect(update.bimanual).not.toBeNull();
+      expect(update.bimanual!.spread).toBeCloseTo(Math.hypot(r.position.x - l.position.x, (r.position.y - l.position.y) / ASPECT), 5);
+      expect(Math.abs(update.bimanual!.twist)).toBeLessThan(0.2); // Palms level
+    });
+
+    it('splits two hands MediaPipe gave the same label by score', () => {
+      const sameLabel = { ...left, label: right.label, score: 0.6 };
+      const { update } = last(hold(new HandPipeline(ASPECT), [sameLabel, right], 600));
+      expect(update.hands.map((reading) => reading.handedness).sort()).toEqual(['Left', 'Right']);
+      expect(update.hands.find((reading) => reading.handedness === 'Right')!.gesture).toBe('OPEN_HAND');
+    });
+  });
+
+  it('recognises a swipe in the mirrored user frame', () => {
+    const pipeline = new HandPipeline(ASPECT);
+    const { fingers } = poseNamed('open hand');
+    hold(pipeline, [buildHand(fingers, { center: { x: 0.3, y: 0.7 } })], 300);
+
+    // Moving toward +x in the raw camera frame is the person's left
+    const events = [];
+    for (let i = 0, t = 333; i <= 8; i++, t += FRAME_MS) {
+      events.push(...pipeline.process([buildHand(fingers, { center: { x: 0.3 + i * 0.06, y: 0.7 } })], t).motionEvents);
+    }
+    expect(events.map(({ event }) => event.gesture)).toContain('SWIPE_LEFT');
+  });
+
+  it('applies custom recogniser options', () => {
+    const pipeline = new HandPipeline(ASPECT, { recognizer: { defaultMinHoldMs: 0, minHoldMs: {}, riseMs: 1 } });
+    const outputs = hold(pipeline, [buildHand(poseNamed('index finger').fingers)], 100);
+    expect(outputs[1].update.gesture).toBe('ONE_FINGER');
+  });
+});
+
+describe('recorded sessions', () => {
+  const open = buildHand(poseNamed('open hand').fingers);
+  const fist = buildHand(poseNamed('fist').fingers);
+  const script = [...Array(20).fill([open]), ...Array(20).fill([fist]), ...Array(25).fill([])] as RawHand[][]; // Long enough to outlast the grace period
+
+  const record = () => {
+    const recorder = new SessionRecorder();
+    recorder.start(1000);
+    script.forEach((hands, i) => recorder.capture(hands, 1000 + i * FRAME_MS));
+    return recorder.stop(ASPECT);
+  };
+
+  const gestureLog = (outputs: PipelineOutput[]) =>
+    outputs.flatMap((output) => output.gestureEvents).filter(({ event }) => event.type !== 'hold').map(({ event }) => `${event.type} ${event.gesture}`);
+
+  it('survives a JSON round trip', () => {
+    const recording = record();
+    const parsed = parseHandRecording(JSON.parse(JSON.stringify(recording)));
+    expect(parsed.frames).toHaveLength(script.length);
+    expect(parsed.frames[1].t).toBe(FRAME_MS);
+  });
+
+  it('rejects malformed recordings', () => {
+    expect(() => parseHandRecording({ version: 2, aspect: 1, frames: [] })).toThrow();
+    expect(() => parseHandRecording({ version: 1, aspect: 1, frames: [{ t: 0, hands: [{ landmarks: [], label: 'Left', score: 1 }] }] })).toThrow();
+  });
+
+  it('replays frame by frame exactly like the live session', () => {
+    const live = new HandPipeline(ASPECT);
+    const liveOutputs = script.map((hands, i) => live.process(hands, 1000 + i * FRAME_MS));
+
+    const player = new SessionPlayer(parseHandRecording(JSON.parse(JSON.stringify(record()))), false);
+    const replay = new HandPipeline(ASPECT);
+    const replayOutputs: PipelineOutput[] = [];
+    for (let i = 0; i < script.length; i++) {
+      player.step();
+      player.advance(0).forEach((frame) => replayOutputs.push(replay.process(frame.hands, frame.now)));
+    }
+
+    expect(gestureLog(replayOutputs)).toEqual(['start OPEN_HAND', 'end OPEN_HAND', 'start FIST', 'end FIST']);
+    expect(gestureLog(replayOutputs)).toEqual(gestureLog(liveOutputs));
+    expect(replayOutputs.map((output) => output.update.gesture)).toEqual(liveOutputs.map((output) => output.update.gesture));
+  });
+
+  it('replays at real speed', () => {
+    const player = new SessionPlayer(record(), false);
+    expect(player.advance(100)).toHaveLength(4); // Frames at 0, 33, 66 and 99 ms
+    expect(player.advance(FRAME_MS)).toHaveLength(1);
+  });
+});
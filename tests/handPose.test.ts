@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { FINGER_NAMES, classifyHand, isPinching, measurePalmSize, measurePinch, toSquareSpace } from '../utils/handPose';
+import { HAND_FIXTURES, buildHand, poseNamed } from './fixtures/handLandmarks';
+
+const ASPECT = 4 / 3;
+
+describe('classifyHand', () => {
+  describe.each(HAND_FIXTURES)('$label', ({ hand, handedness, fingers, count }) => {
+    it('reads every finger from world landmarks', () => {
+      const pose = classifyHand(hand.worldLandmarks!, handedness);
+      expect(pose.fingers).toEqual(fingers);
+      expect(pose.count).toBe(count);
+    });
+
+    it('reads every finger from image landmarks', () => {
+      const pose = classifyHand(toSquareSpace(hand.landmarks, ASPECT), handedness);
+      expect(pose.fingers).toEqual(fingers);
+      expect(pose.count).toBe(count);
+    });
+  });
+
+  it('is clear about unambiguous poses', () => {
+    const pose = classifyHand(buildHand(poseNamed('open hand').fingers).worldLandmarks!, 'Right');
+    expect(pose.clarity).toBeGreaterThan(0.8);
+    FINGER_NAMES.forEach((name) => expect(pose.extension[name]).toBe(1));
+  });
+
+  it('does not depend on how far away the hand is', () => {
+    const { fingers } = poseNamed('peace sign');
+    const near = classifyHand(toSquareSpace(buildHand(fingers, { scale: 4 }).landmarks, ASPECT), 'Right');
+    const far = classifyHand(toSquareSpace(buildHand(fingers, { scale: 0.8 }).landmarks, ASPECT), 'Right');
+    expect(near.fingers).toEqual(far.fingers);
+    expect(near.palmSize / far.palmSize).toBeCloseTo(5, 5);
+  });
+
+  it('tells whether the palm faces the camera for either hand', () => {
+    const { fingers } = poseNamed('open hand');
+    const facing = { name: 'facing', roll: 0, yaw: 0 };
+    const away = { name: 'away', roll: 0, yaw: 180 };
+
+    expect(classifyHand(buildHand(fingers, { orientation: facing }).worldLandmarks!, 'Right').palmFacingCamera).toBe(true);
+    expect(classifyHand(buildHand(fingers, { orientation: away }).worldLandmarks!, 'Right').palmFacingCamera).toBe(false);
+    expect(classifyHand(buildHand(fingers, { handedness: 'Left', orientation: facing }).worldLandmarks!, 'Left').palmFacingCamera).toBe(true);
+    expect(classifyHand(buildHand(fingers).worldLandmarks!, null).palmFacingCamera).toBeNull();
+  });
+
+  it.each(['Right', 'Left'] as const)('reads a straight thumb laid across a %s palm as folded', (handedness) => {
+    const landmarks = buildHand(poseNamed('open hand').fingers, { handedness }).worldLandmarks!;
+    // Mirror the thumb over the palm's centre line: just as straight and far from the index knuckle
+    const wristX = landmarks[0].x;
+    const across = landmarks.map((point, i) => (i >= 1 && i <= 4 ? { ...point, x: 2 * wristX - point.x } : point));
+
+    expect(classifyHand(across, null).fingers.thumb).toBe(true);
+    expect(classifyHand(across, handedness).fingers.thumb).toBe(false);
+    expect(classifyHand(across, handedness).count).toBe(4);
+  });
+
+  it('applies custom thresholds', () => {
+    const { fingers } = poseNamed('four fingers');
+    const strict = classifyHand(buildHand(fingers).worldLandmarks!, 'Right', { fingerBendDeg: 5, thumbBendDeg: 60, thumbReach: 0.55 });
+    expect(strict.count).toBe(0); // Even a straight finger bends a little at its joints
+  });
+});
+
+describe('palm size and pinch', () => {
+  it('measures the palm in landmark units', () => {
+    const palm = measurePalmSize(buildHand(poseNamed('fist').fingers).worldLandmarks!);
+    expect(palm).toBeGreaterThan(0.06);
+    expect(palm).toBeLessThan(0.09);
+  });
+
+  it('pinches with hysteresis', () => {
+    const landmarks = buildHand(poseNamed('open hand').fingers).worldLandmarks!.map((point) => ({ ...point }));
+    const palm = measurePalmSize(landmarks);
+    const setGap = (gap: number) => {
+      landmarks[4] = { x: landmarks[8].x + gap * palm, y: landmarks[8].y, z: landmarks[8].z };
+    };
+
+    setGap(0.2);
+    expect(measurePinch(landmarks)).toBeCloseTo(0.2, 5);
+    expect(isPinching(landmarks, false)).toBe(true);
+
+    setGap(0.38); // Between the close and open thresholds: keeps whatever it was
+    expect(isPinching(landmarks, false)).toBe(false);
+    expect(isPinching(landmarks, true)).toBe(true);
+
+    setGap(0.6);
+    expect(isPinching(landmarks, true)).toBe(false);
+  });
+});
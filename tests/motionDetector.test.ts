@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MotionDetector, parseMotionDetectorOptions } from '../utils/motionDetector';
+
+const WIDTH = 16;
+const HEIGHT = 12;
+
+// A flat grey frame, optionally with a bright square at (x, y)
+const frame = (square?: { x: number; y: number }) => {
+  const rgba = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(100);
+  if (square) {
+    for (let y = square.y; y < square.y + 3; y++) {
+      for (let x = square.x; x < square.x + 3; x++) rgba.fill(250, (y * WIDTH + x) * 4, (y * WIDTH + x) * 4 + 4);
+    }
+  }
+  return rgba;
+};
+
+describe('MotionDetector', () => {
+  it('keeps the velocity finite over still frames with no minimum coverage', () => {
+    const detector = new MotionDetector({ width: WIDTH, height: HEIGHT, minCoverage: 0 });
+    detector.update(frame(), 0);
+    for (let t = 1; t <= 5; t++) {
+      const reading = detector.update(frame(), t * 33);
+      expect(reading.intensity).toBe(0);
+      expect(Number.isFinite(reading.velocity.x) && Number.isFinite(reading.velocity.y)).toBe(true);
+    }
+    const moving = detector.update(frame({ x: 6, y: 4 }), 200);
+    expect(moving.intensity).toBeGreaterThan(0);
+    expect(Number.isFinite(moving.x) && Number.isFinite(moving.velocity.x)).toBe(true);
+  });
+});
+
+describe('parseMotionDetectorOptions', () => {
+  const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  afterEach(() => warn.mockClear());
+
+  it('keeps values the detector can work with', () => {
+    expect(parseMotionDetectorOptions('sensitivity:2.5, minDiff:0, width:32, minCoverage:1')).toEqual({
+      sensitivity: 2.5,
+      minDiff: 0,
+      width: 32,
+      minCoverage: 1,
+    });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('skips values that would break it', () => {
+    const entries = ['minCoverage:0', 'fullCoverage:1.5', 'width:0', 'height:12.5', 'sensitivity:0', 'backgroundRate:0', 'constructor:1', 'minDiff'];
+    expect(parseMotionDetectorOptions(entries.join(','))).toEqual({});
+    expect(warn).toHaveBeenCalledTimes(entries.length);
+  });
+});
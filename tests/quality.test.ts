@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { QualityGovernor } from '../utils/quality';
+
+// Feeds `seconds` of frames at a steady rate, collecting the tier changes
+const run = (governor: QualityGovernor, fps: number, seconds: number) => {
+  const changes: string[] = [];
+  for (let i = 0; i < fps * seconds; i++) {
+    const tier = governor.update(1 / fps);
+    if (tier) changes.push(tier);
+  }
+  return changes;
+};
+
+describe('QualityGovernor', () => {
+  it('steps down one tier at a time while frames are slow', () => {
+    const governor = new QualityGovernor('ultra');
+    expect(run(governor, 30, 2.5)).toEqual(['high']);
+    expect(run(governor, 30, 20)).toEqual(['medium', 'low']);
+    expect(governor.tier).toBe('low');
+  });
+
+  it('steps up only after a longer run of fast frames', () => {
+    const governor = new QualityGovernor('low');
+    expect(run(governor, 60, 4.5)).toEqual([]);
+    expect(run(governor, 60, 1)).toEqual(['medium']);
+    expect(run(governor, 60, 30)).toEqual(['high', 'ultra']);
+  });
+
+  it('holds between the thresholds', () => {
+    const governor = new QualityGovernor('medium');
+    expect(run(governor, 50, 60)).toEqual([]);
+  });
+
+  it('ignores hitches and hidden-tab gaps', () => {
+    const governor = new QualityGovernor('high');
+    for (let i = 0; i < 20; i++) expect(governor.update(2)).toBeNull();
+    expect(run(governor, 60, 1)).toEqual([]);
+  });
+
+  it('waits longer before retrying a tier that did not hold', () => {
+    const governor = new QualityGovernor('medium');
+    expect(run(governor, 60, 6)).toEqual(['high']);
+    expect(run(governor, 30, 4)).toEqual(['medium']);
+    // Five fast seconds were enough the first time; now it takes ten
+    expect(run(governor, 60, 8)).toEqual([]);
+    expect(run(governor, 60, 4)).toEqual(['high']);
+  });
+});
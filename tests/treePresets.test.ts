@@ -0,0 +1,123 @@
+import * as THREE from 'three';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generateTree } from '../utils/geometry';
+import {
+  DEFAULT_SHADER_TUNING,
+  SHADER_PARAM_LIMITS,
+  SOMEI_YOSHINO,
+  TREE_PARAM_LIMITS,
+  TREE_PRESETS,
+  estimateBranchTips,
+  mergeTreePresets,
+  parseShaderTuning,
+  parseTreePreset,
+  parseTreePresets,
+  parseTreeShape,
+  treePresetToJson,
+} from '../utils/treePresets';
+
+const START = new THREE.Vector3(0, -60, 0);
+
+describe('tree presets', () => {
+  const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  afterEach(() => warn.mockClear());
+
+  it.each(TREE_PRESETS)('ships $name within the limits', (preset) => {
+    expect(parseTreePreset(JSON.parse(treePresetToJson(preset)))).toEqual(preset);
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('starts partial presets from Somei-yoshino', () => {
+    const preset = parseTreePreset({ name: 'Pale Yoshino', params: { blossomColors: ['#ffffff', '#fff0f5'], droop: 5 } });
+    expect(preset.id).toBe('pale-yoshino');
+    expect(preset.params).toEqual({ ...SOMEI_YOSHINO, blossomColors: ['#ffffff', '#fff0f5'], droop: 5 });
+    expect(preset.shader).toEqual(DEFAULT_SHADER_TUNING);
+  });
+
+  it('validates shader values like the shape', () => {
+    const shader = parseShaderTuning({ flutter: 1.2, alphaClip: 2, orbitSpeed: 'fast', glow: 1 });
+    expect(shader).toEqual({ ...DEFAULT_SHADER_TUNING, flutter: 1.2, alphaClip: SHADER_PARAM_LIMITS.alphaClip.max });
+    expect(warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports names inherited from Object as unknown', () => {
+    const preset = parseTreePreset(JSON.parse('{ "name": "Proto", "params": { "toString": 1 }, "shader": { "constructor": 1 } }'));
+    expect(preset.params).toEqual(SOMEI_YOSHINO);
+    expect(preset.shader).toEqual(DEFAULT_SHADER_TUNING);
+    expect(warn.mock.calls.map(([message]) => message)).toEqual([
+      'Tree preset "Proto": unknown parameter "toString"',
+      'Tree preset "Proto": unknown shader value "constructor"',
+    ]);
+  });
+
+  it('clamps, rounds and orders out-of-range values', () => {
+    const shape = parseTreeShape({ lengthDecay: 1.4, clusters: 2.6, trunkSpread: [0.9, -1], branches: [2, 9] });
+    expect(shape.lengthDecay).toBe(TREE_PARAM_LIMITS.lengthDecay.max);
+    expect(shape.clusters).toBe(3);
+    expect(shape.trunkSpread).toEqual([0, 0.9]);
+    expect(shape.branches).toEqual([2, TREE_PARAM_LIMITS.branches.max]);
+    expect(warn).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps the base value for invalid fields and reports unknown ones', () => {
+    const shape = parseTreeShape({ depth: 'tall', woodColor: 'brown', blossomColors: [], trunkBranches: [3], bark: 1 });
+    expect(shape).toEqual(SOMEI_YOSHINO);
+    expect(warn.mock.calls.map(([message]) => message)).toEqual([
+      'Tree preset: unknown parameter "bark"',
+      'Tree preset: depth must be a number',
+      'Tree preset: trunkBranches must be [min, max]',
+      'Tree preset: woodColor must be a hex colour like "#3e2b24"',
+    ]);
+  });
+
+  it('cuts back trees too big to generate', () => {
+    const shape = parseTreeShape({ depth: 7, trunkBranches: [6, 6], branches: [4, 4], clusters: 8, clusterParticles: 200 });
+    expect(shape.depth).toBeLessThan(7);
+    expect(estimateBranchTips(shape)).toBeLessThanOrEqual(2000);
+    expect(estimateBranchTips(shape) * shape.clusters * shape.clusterParticles).toBeLessThanOrEqual(400_000);
+  });
+
+  it('rejects presets without a name and skips them in a list', () => {
+    expect(() => parseTreePreset({ params: {} })).toThrow(/name/);
+    expect(() => parseTreePreset({ name: 'Oak', params: [] })).toThrow(/params/);
+    expect(parseTreePresets({ presets: [{ name: 'Oak' }, { id: 'x' }] }).map((preset) => preset.id)).toEqual(['oak']);
+    expect(parseTreePresets({ name: 'Oak' })).toHaveLength(1);
+  });
+
+  it('replaces presets with the same id in place', () => {
+    const custom = parseTreePreset({ id: 'ume', name: 'Kobai', params: { clusters: 4 } });
+    const merged = mergeTreePresets(TREE_PRESETS, [custom, parseTreePreset({ name: 'Oak' })]);
+    expect(merged.map((preset) => preset.id)).toEqual([...TREE_PRESETS.map((preset) => preset.id), 'oak']);
+    expect(merged.find((preset) => preset.id === 'ume')).toBe(custom);
+  });
+});
+
+describe('generateTree', () => {
+  it('is reproducible for a seed and shape', () => {
+    const a = generateTree({ ...SOMEI_YOSHINO, startPos: START, seed: 7 });
+    const b = generateTree({ ...SOMEI_YOSHINO, startPos: START, seed: 7 });
+    expect(b.blossoms.positions).toEqual(a.blossoms.positions);
+    expect(b.leafNodes).toEqual(a.leafNodes);
+  });
+
+  it('reports progress up to completion', () => {
+    const progress: number[] = [];
+    generateTree({ ...SOMEI_YOSHINO, startPos: START, seed: 7 }, (fraction) => progress.push(fraction));
+    expect(progress.length).toBeGreaterThan(10);
+    expect(progress.every((fraction, i) => i === 0 || fraction >= progress[i - 1])).toBe(true);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it('grows bare branches with tips to hang photos from', () => {
+    const winter = TREE_PRESETS.find((preset) => preset.id === 'winter')!;
+    const tree = generateTree({ ...winter.params, startPos: START, seed: 7 });
+    expect(tree.blossoms.positions).toHaveLength(0);
+    expect(tree.leafNodes.length).toBeGreaterThan(16);
+  });
+
+  it('colours blossoms from the species palette', () => {
+    const tree = generateTree({ ...SOMEI_YOSHINO, depth: 3, blossomColors: ['#336699'], startPos: START, seed: 7 });
+    const color = new THREE.Color('#336699');
+    expect(Array.from(tree.blossoms.colors.slice(0, 3))).toEqual([color.r, color.g, color.b].map(Math.fround));
+  });
+});
@@ -1,12 +1,24 @@
 import * as THREE from 'three';
 
+// Galaxy formations the expanded tree can take (see utils/formations.ts)
+export type FormationId = 'spiral' | 'shell' | 'torus' | 'heart' | 'helix' | 'nebula';
+
+// Accumulated galaxy rotation (rad): turning as one body, and the differential part that
+// the shader scales up toward the centre
+export interface GalaxyOrbit {
+  rigid: number;
+  shear: number;
+}
+
 export interface ParticleData {
   positions: Float32Array;
-  targetPositions: Float32Array;
+  targetPositions: Float32Array; // Expanded, in the 'shell' formation
+  formations: Partial<Record<FormationId, Float32Array>>; // The others; missing ones fall back to the shell
   colors: Float32Array;
   sizes: Float32Array;
   drifts: Float32Array;
   phases: Float32Array;
+  rotations: Float32Array;
 }
 
 export interface TreeData {
@@ -15,17 +27,178 @@ export interface TreeData {
   leafNodes: THREE.Vector3[];
 }
 
-export interface PhotoData {
+// Caption fields, from the photo manifest or the image's EXIF
+export interface PhotoMetadata {
+  title?: string;
+  date?: string; // ISO date (YYYY-MM-DD) or free text from a manifest
+  caption?: string;
+  credit?: string;
+}
+
+export interface PhotoSource extends PhotoMetadata {
+  id: string;
+  url: string; // Remote, relative, blob: or data: URL
+  name?: string;
+  aspect?: number; // width / height when known up front
+}
+
+export interface PhotoData extends PhotoMetadata {
   id: number;
-  position: THREE.Vector3;
+  anchor: THREE.Vector3; // Branch tip the string is tied to
+  stringLength: number;
+  position: THREE.Vector3; // Rest position, hanging straight down from the anchor
   rotation: THREE.Euler;
   url: string;
-  targetSpacePos: THREE.Vector3;
+  aspect?: number;
+  targetSpacePos: Record<FormationId, THREE.Vector3>; // Where the photo floats in each formation
   targetSpaceRot: THREE.Euler;
 }
 
-export interface TreeGenParams {
-  depth: number;
-  branchLength: number;
+// [min, max]; integer ranges include both ends
+export type ParamRange = [number, number];
+
+// Everything that shapes a tree species. Plain JSON, so presets can be designed outside
+// the code (see utils/treePresets.ts for limits and the built-in species).
+export interface TreeShape {
+  depth: number; // Branching levels below the trunk
+  branchLength: number; // Trunk length; each level is `lengthDecay` of the one before
+  trunkRadius: number;
+  trunkBranches: ParamRange; // Branches off the trunk
+  branches: ParamRange; // Branches off every other branch
+  trunkSpread: ParamRange; // Angle from the parent (rad) for the trunk's branches
+  limbSpread: ParamRange; // ...for the next two levels
+  twigSpread: ParamRange; // ...and for the rest
+  lengthDecay: number;
+  radiusDecay: number;
+  trunkLift: number; // Upward pull on the trunk's branches; negative droops
+  branchLift: number; // Upward pull on the others ("reach for light")
+  clusters: number; // Blossom clusters per branch tip; 0 for a bare tree
+  clusterParticles: number;
+  blossomSize: number;
+  droop: number; // How far blossoms hang below their cluster
+  weep: number; // Extra droop toward the cluster's outer edges
+  woodColor: string; // CSS colours
+  woodHighlight: string;
+  blossomColors: string[];
+}
+
+// Look of the particle shader, live-tunable without regenerating the tree
+export interface ShaderTuning {
+  windAmplitude: number; // × the sway in utils/wind.ts
+  flutter: number; // Petal bob, in world units
+  orbitSpeed: number; // Galaxy rotation, rad/s at radius 90
+  pointScale: number; // × particle size
+  alphaClip: number; // Texture alpha below this is discarded
+}
+
+export interface TreeGenParams extends TreeShape {
   startPos: THREE.Vector3;
-}
\ No newline at end of file
+  seed?: number; // Same seed and shape => identical particle buffers and leaf nodes
+}
+// Static hand poses. COUNT_n covers finger counts that aren't one of the named poses
+// (e.g. one finger that isn't the index).
+export type Gesture =
+  | 'NONE'
+  | 'FIST'
+  | 'OPEN_HAND'
+  | 'ONE_FINGER'
+  | 'TWO_FINGERS'
+  | 'COUNT_1'
+  | 'COUNT_2'
+  | 'COUNT_3'
+  | 'COUNT_4';
+
+// Trajectory gestures, recognised from hand movement rather than a held pose
+export type MotionGesture =
+  | 'SWIPE_LEFT'
+  | 'SWIPE_RIGHT'
+  | 'SWIPE_UP'
+  | 'SWIPE_DOWN'
+  | 'WAVE'
+  | 'CIRCLE_CW'
+  | 'CIRCLE_CCW'
+  | 'PUSH';
+
+// One completed motion gesture. `id` increases with every event so repeats are distinct.
+export interface MotionEvent {
+  id: number;
+  gesture: MotionGesture;
+  // Unit vector in the user's frame: +x to their right, +y down, +z toward the camera.
+  // Circles give their rotation axis instead (+z = clockwise as the user sees it).
+  direction: { x: number; y: number; z: number };
+  // Swipes: screen widths per second; wave: strokes per second;
+  // circles: turns per second; push: palm sizes per second
+  speed: number;
+}
+
+export type BindableGesture = Gesture | MotionGesture;
+
+// Named behaviours a gesture can be bound to
+export type SceneAction =
+  | 'expand'
+  | 'collapse'
+  | 'hueCycle'
+  | 'revealPhotos'
+  | 'cycleLayout'
+  | 'screenshot'
+  | 'spinGalaxy'
+  | 'nextPhoto'
+  | 'prevPhoto'
+  | 'cycleFormation'
+  | 'formSpiral'
+  | 'formShell'
+  | 'formTorus'
+  | 'formHeart'
+  | 'formHelix'
+  | 'formNebula';
+
+export type GestureBindings = Partial<Record<BindableGesture, SceneAction>>;
+
+// A fire-once action for the scene. `id` increases with every trigger so repeats are distinct;
+// motion gestures pass their event along so direction and speed can shape the result.
+export interface SceneTrigger {
+  id: number;
+  action: SceneAction;
+  motion: MotionEvent | null;
+}
+
+// The person's actual hand (not MediaPipe's mirrored label)
+export type Handedness = 'Left' | 'Right';
+
+// Pinch cursor: midway between the thumb and index tips, in the same frame as `position`
+export interface PointerReading {
+  x: number;
+  y: number;
+  pinching: boolean;
+}
+
+export interface HandReading {
+  handedness: Handedness;
+  fingerCount: number;
+  gesture: Gesture;
+  confidence: number; // Recogniser confidence in `gesture`, 0..1
+  position: { x: number; y: number };
+  pointer: PointerReading;
+  palmSize: number | null; // Smoothed, in image heights: grows as the hand nears the camera. Null without depth (mouse, keys)
+  isTracking: boolean; // False while the gesture is held through a short dropout
+}
+
+// Both hands at once, measured between the palms in the user's frame
+export interface BimanualReading {
+  spread: number; // Palm-to-palm distance in screen widths
+  twist: number; // Angle of the left -> right palm line (rad); clockwise as the user sees it is positive
+}
+
+// The top-level fields describe the primary hand (the right one when both are up),
+// so single-hand consumers can ignore the rest.
+export interface HandUpdate {
+  fingerCount: number;
+  gesture: Gesture;
+  confidence: number;
+  position: { x: number; y: number };
+  pointer: PointerReading | null; // Only while the primary hand is tracked
+  palmSize: number | null; // Likewise, and only from inputs that sense depth
+  isTracking: boolean;
+  hands: HandReading[]; // Every hand tracked or held through a dropout, left first
+  bimanual: BimanualReading | null; // Only while both hands are tracked
+}
@@ -0,0 +1,190 @@
+import { DEFAULT_POSE_THRESHOLDS, FINGER_NAMES, FingerName, HandPoseThresholds, measureFingers, measurePalmSize, toSquareSpace } from './handPose';
+import { RawHand } from './handPipeline';
+
+// Per-person tuning for hand control, from a short calibration: an open hand, a fist
+// and the edges of a comfortable reach. Stored per profile on this machine.
+
+export interface Reach {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+export interface Calibration {
+  pose: HandPoseThresholds; // Where extended ends and curled begins, for this person's hands
+  smoothing: number; // Palm low-pass per frame (see HandPipelineOptions)
+  center: { x: number; y: number }; // Resting palm position: the joystick's centre
+  reach: Reach; // Comfortable extremes of the palm, in the mirrored user frame (y down)
+  deadZone: number; // Joystick dead zone, as a fraction of the screen once mapped to the reach
+  restPalmSize: number | null; // Palm size at rest, for push/pull; null: the size the hand arrives at
+}
+
+export const DEFAULT_CALIBRATION: Calibration = {
+  pose: DEFAULT_POSE_THRESHOLDS,
+  smoothing: 0.25,
+  center: { x: 0.5, y: 0.5 },
+  reach: { left: 0, right: 1, top: 0, bottom: 1 },
+  deadZone: 0.15,
+  restPalmSize: null,
+};
+
+// --- SAMPLING ---
+
+export interface CalibrationSample {
+  bend: Record<FingerName, number>;
+  thumbReach: number;
+  palm: { x: number; y: number }; // Mirrored, like HandUpdate.position
+  palmSize: number; // In image heights, like HandUpdate.palmSize
+}
+
+export const sampleHand = (hand: RawHand, aspect: number): CalibrationSample => {
+  const image = toSquareSpace(hand.landmarks, aspect);
+  return {
+    ...measureFingers(hand.worldLandmarks ?? image),
+    palm: { x: 1 - hand.landmarks[9].x, y: hand.landmarks[9].y },
+    palmSize: measurePalmSize(image),
+  };
+};
+
+export interface CalibrationSamples {
+  open: CalibrationSample[];
+  fist: CalibrationSample[];
+  reach: { x: number; y: number }[];
+}
+
+// --- DERIVATION ---
+
+const FINGERS = FINGER_NAMES.filter((name) => name !== 'thumb');
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+};
+
+// Halfway between what the open hand and the fist actually did, if they are far enough
+// apart to trust; otherwise the default. Open-hand values are the smaller ones unless `openIsLow` is false.
+const splitBetween = (open: number[], fist: number[], minGap: number, fallback: number, openIsLow = true) => {
+  const openEdge = percentile(open, openIsLow ? 0.9 : 0.1);
+  const fistEdge = percentile(fist, openIsLow ? 0.1 : 0.9);
+  const gap = openIsLow ? fistEdge - openEdge : openEdge - fistEdge;
+  return gap >= minGap ? (openEdge + fistEdge) / 2 : fallback;
+};
+
+export const deriveCalibration = ({ open, fist, reach }: CalibrationSamples): Calibration => {
+  const pose = { ...DEFAULT_CALIBRATION.pose };
+  if (open.length > 0 && fist.length > 0) {
+    // Least bent finger of the fist against the most bent of the open hand
+    pose.fingerBendDeg = clamp(
+      splitBetween(open.map((s) => Math.max(...FINGERS.map((f) => s.bend[f]))), fist.map((s) => Math.min(...FINGERS.map((f) => s.bend[f]))), 20, pose.fingerBendDeg),
+      30,
+      150
+    );
+    pose.thumbBendDeg = clamp(splitBetween(open.map((s) => s.bend.thumb), fist.map((s) => s.bend.thumb), 15, pose.thumbBendDeg), 20, 120);
+    pose.thumbReach = clamp(splitBetween(open.map((s) => s.thumbReach), fist.map((s) => s.thumbReach), 0.15, pose.thumbReach, false), 0.3, 1.2);
+  }
+
+  if (open.length === 0) return { ...DEFAULT_CALIBRATION, pose };
+
+  // Resting position, and how much it shakes there
+  const center = { x: percentile(open.map((s) => s.palm.x), 0.5), y: percentile(open.map((s) => s.palm.y), 0.5) };
+  const jitter = Math.sqrt(open.reduce((sum, s) => sum + (s.palm.x - center.x) ** 2 + (s.palm.y - center.y) ** 2, 0) / open.length);
+
+  // Comfortable edges, ignoring the odd overshoot; at least a little room on every side
+  const xs = reach.map((p) => p.x);
+  const ys = reach.map((p) => p.y);
+  const range = reach.length > 0
+    ? {
+        left: clamp(Math.min(percentile(xs, 0.05), center.x - 0.1), 0, 1),
+        right: clamp(Math.max(percentile(xs, 0.95), center.x + 0.1), 0, 1),
+        top: clamp(Math.min(percentile(ys, 0.05), center.y - 0.1), 0, 1),
+        bottom: clamp(Math.max(percentile(ys, 0.95), center.y + 0.1), 0, 1),
+      }
+    : DEFAULT_CALIBRATION.reach;
+
+  // A steady hand can follow faster and needs less dead zone; a shaky one the reverse
+  const halfReach = Math.min(center.x - range.left, range.right - center.x, center.y - range.top, range.bottom - center.y);
+  const mappedJitter = (jitter / Math.max(halfReach, 0.05)) * 0.5;
+  return {
+    pose,
+    smoothing: clamp(0.25 * (0.003 / Math.max(jitter, 1e-4)), 0.1, 0.5),
+    center,
+    reach: range,
+    deadZone: clamp(0.12 + 6 * mappedJitter, 0.1, 0.3),
+    restPalmSize: percentile(open.map((s) => s.palmSize), 0.5),
+  };
+};
+
+// Palm position -> joystick position: the centre maps to 0.5 and each reach edge to 0 or 1
+export const mapToReach = (position: { x: number; y: number }, { center, reach }: Calibration) => {
+  const axis = (v: number, c: number, low: number, high: number) =>
+    clamp(v < c ? 0.5 - (0.5 * (c - v)) / Math.max(c - low, 1e-3) : 0.5 + (0.5 * (v - c)) / Math.max(high - c, 1e-3), 0, 1);
+  return { x: axis(position.x, center.x, reach.left, reach.right), y: axis(position.y, center.y, reach.top, reach.bottom) };
+};
+
+// Palm size ratio to the resting size that pushes or pulls at full speed
+const DEPTH_RANGE = 1.5;
+
+// Palm size -> push/pull, like mapToReach for depth: 0 at rest, +1 leaning in, -1 pulling back
+export const mapToDepth = (palmSize: number, restPalmSize: number) =>
+  clamp(Math.log(palmSize / restPalmSize) / Math.log(DEPTH_RANGE), -1, 1);
+
+// --- PROFILES ---
+
+export interface CalibrationProfiles {
+  active: string;
+  profiles: Record<string, Calibration>;
+}
+
+export const DEFAULT_PROFILE = 'Default';
+
+const STORAGE_KEY = 'sakura-dream.calibration';
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isPositive = (v: unknown): v is number => isNumber(v) && v > 0;
+
+// An object whose `keys` all hold finite numbers
+const hasNumbers = <K extends string>(value: unknown, keys: K[]): value is Record<K, number> =>
+  typeof value === 'object' && value !== null && keys.every((key) => isNumber((value as Record<string, unknown>)[key]));
+
+// A stored calibration, or null if it is damaged or from an incompatible version
+const readCalibration = (value: unknown): Calibration | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { pose, smoothing, center, reach, deadZone, restPalmSize } = value as Partial<Record<keyof Calibration, unknown>>;
+  if (
+    !hasNumbers(pose, ['fingerBendDeg', 'thumbBendDeg', 'thumbReach']) ||
+    !isNumber(smoothing) || !isNumber(deadZone) ||
+    !hasNumbers(center, ['x', 'y']) ||
+    !hasNumbers(reach, ['left', 'right', 'top', 'bottom']) ||
+    (restPalmSize != null && !isPositive(restPalmSize))
+  ) {
+    return null;
+  }
+  return { pose, smoothing, center, reach, deadZone, restPalmSize: isPositive(restPalmSize) ? restPalmSize : null };
+};
+
+export const loadCalibrationProfiles = (): CalibrationProfiles => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    const profiles: Record<string, Calibration> = {};
+    Object.entries(stored?.profiles ?? {}).forEach(([name, value]) => {
+      const calibration = readCalibration(value);
+      if (calibration) profiles[name] = calibration;
+      else console.warn(`Ignoring damaged calibration for profile "${name}"`);
+    });
+    return { active: typeof stored?.active === 'string' ? stored.active : DEFAULT_PROFILE, profiles };
+  } catch (e) {
+    console.warn('Could not read calibration profiles:', e);
+    return { active: DEFAULT_PROFILE, profiles: {} };
+  }
+};
+
+export const saveCalibrationProfiles = (profiles: CalibrationProfiles) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.warn('Could not store calibration profiles:', e);
+  }
+};
@@ -0,0 +1,190 @@
+// Webcam capture for the trackers: which camera, at what size and rate, and a
+// watchdog that reopens it when frames stop (unplugged, driver hiccup, sleep).
+
+export interface CameraSettings {
+  deviceId: string | null; // null: the browser's default, front-facing if it can tell
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export const RESOLUTIONS = [
+  { width: 320, height: 240 },
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+];
+
+export const FRAME_RATES = [15, 30, 60];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = { deviceId: null, width: 320, height: 240, frameRate: 30 };
+
+const STORAGE_KEY = 'sakura-dream.camera';
+
+export const cameraAspect = (settings: CameraSettings) => settings.width / settings.height;
+
+// The last choice on this machine, or the defaults
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_CAMERA_SETTINGS;
+    const resolution = RESOLUTIONS.find((r) => r.width === stored.width && r.height === stored.height) ?? DEFAULT_CAMERA_SETTINGS;
+    return {
+      deviceId: typeof stored.deviceId === 'string' ? stored.deviceId : null,
+      width: resolution.width,
+      height: resolution.height,
+      frameRate: FRAME_RATES.includes(stored.frameRate) ? stored.frameRate : DEFAULT_CAMERA_SETTINGS.frameRate,
+    };
+  } catch (e) {
+    console.warn('Could not read camera settings:', e);
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Could not store camera settings:', e);
+  }
+};
+
+// Labels are empty until the page has camera permission
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === 'videoinput' && device.deviceId);
+};
+
+export type CaptureState = 'starting' | 'live' | 'reconnecting' | 'stopped';
+
+export interface CameraCaptureOptions {
+  stallMs: number; // No new frame for this long reopens the camera
+  retryMs: number; // First wait before reopening, doubling on each failure
+  maxRetryMs: number;
+}
+
+const DEFAULT_OPTIONS: CameraCaptureOptions = { stallMs: 4000, retryMs: 1000, maxRetryMs: 30000 };
+
+export class CameraCapture {
+  readonly options: CameraCaptureOptions;
+  state: CaptureState = 'stopped';
+  restarts = 0;
+
+  private stream: MediaStream | null = null;
+  private lastVideoTime = -1;
+  private lastFrameAt = 0;
+  private retryDelay: number;
+  private watchdog = 0;
+  private retryTimer = 0;
+
+  constructor(
+    private readonly video: HTMLVideoElement,
+    private readonly settings: CameraSettings,
+    private readonly onStateChange?: (state: CaptureState) => void,
+    options: Partial<CameraCaptureOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.retryDelay = this.options.retryMs;
+  }
+
+  // Opens the camera. Rejects only if it can't be opened at all; later losses are recovered.
+  async start() {
+    this.setState('starting');
+    try {
+      await this.open();
+    } catch (e) {
+      this.close();
+      this.setState('stopped');
+      throw e;
+    }
+    if (this.state === 'stopped') return; // Stopped while opening
+    this.watchdog = window.setInterval(() => this.checkFrames(), 1000);
+  }
+
+  stop() {
+    clearInterval(this.watchdog);
+    clearTimeout(this.retryTimer);
+    this.close();
+    this.setState('stopped');
+  }
+
+  // True when the video shows a frame not seen before; the display refreshes faster than the camera
+  hasNewFrame(): boolean {
+    if (this.state !== 'live' || this.video.readyState < 2 || this.video.currentTime === this.lastVideoTime) return false;
+    this.lastVideoTime = this.video.currentTime;
+    this.lastFrameAt = performance.now();
+    return true;
+  }
+
+  private async open() {
+    const { deviceId, width, height, frameRate } = this.settings;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: {
+        // `ideal`, not `exact`: if the remembered camera is gone, any camera beats none
+        ...(deviceId ? { deviceId: { ideal: deviceId } } : { facingMode: 'user' }),
+        width: { ideal: width },
+        height: { ideal: height },
+        frameRate: { ideal: frameRate },
+      },
+    });
+    if (this.state === 'stopped') {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    this.stream = stream;
+    stream.getVideoTracks().forEach((track) => track.addEventListener('ended', () => this.reconnect()));
+    this.video.srcObject = stream;
+    await this.video.play();
+    if (this.stream !== stream) return; // Closed while starting to play
+
+    this.lastVideoTime = -1;
+    this.lastFrameAt = performance.now();
+    this.retryDelay = this.options.retryMs;
+    this.setState('live');
+  }
+
+  private close() {
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.video.srcObject = null;
+  }
+
+  private checkFrames() {
+    // Hidden tabs pause the render loop that polls for frames; that isn't a stall
+    if (document.hidden) {
+      this.lastFrameAt = performance.now();
+      return;
+    }
+    if (this.state === 'live' && performance.now() - this.lastFrameAt > this.options.stallMs) {
+      console.warn(`Camera sent no frames for ${this.options.stallMs}ms, reopening it`);
+      this.reconnect();
+    }
+  }
+
+  private reconnect() {
+    if (this.state !== 'live') return;
+    this.close();
+    this.restarts++;
+    this.setState('reconnecting');
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry() {
+    this.retryTimer = window.setTimeout(() => {
+      if (this.state !== 'reconnecting') return;
+      this.open().catch((e) => {
+        this.close();
+        this.retryDelay = Math.min(this.retryDelay * 2, this.options.maxRetryMs);
+        console.warn(`Camera still unavailable, retrying in ${this.retryDelay}ms:`, e);
+        this.scheduleRetry();
+      });
+    }, this.retryDelay);
+  }
+
+  private setState(state: CaptureState) {
+    if (state === this.state) return;
+    this.state = state;
+    this.onStateChange?.(state);
+  }
+}
@@ -0,0 +1,112 @@
+import { PhotoMetadata } from '../types';
+
+// Minimal JPEG EXIF reader: just the few text tags we show as captions.
+// Anything malformed simply yields no metadata.
+
+const TAG_IMAGE_DESCRIPTION = 0x010e;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_XP_TITLE = 0x9c9b;
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+
+// EXIF lives in the first APP1 segment; no need to read the whole image
+const HEADER_BYTES = 256 * 1024;
+
+type TagValues = Map<number, string | number>;
+
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean, out: TagValues) => {
+  const base = tiffStart + ifdOffset;
+  if (base + 2 > view.byteLength) return;
+  const entries = view.getUint16(base, little);
+
+  for (let i = 0; i < entries; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > view.byteLength) return;
+
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const count = view.getUint32(entry + 4, little);
+
+    if (type === TYPE_LONG && count === 1) {
+      out.set(tag, view.getUint32(entry + 8, little));
+      continue;
+    }
+    if (type !== TYPE_ASCII && type !== TYPE_BYTE) continue;
+
+    // Values over 4 bytes are stored at an offset from the TIFF header
+    const dataStart = count > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (dataStart + count > view.byteLength) continue;
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + dataStart, count);
+
+    const text = type === TYPE_ASCII
+      ? new TextDecoder('utf-8').decode(bytes)
+      : new TextDecoder('utf-16le').decode(bytes); // XP* tags are UCS-2 in BYTE arrays
+    out.set(tag, text.replace(/\0+$/, '').trim());
+  }
+};
+
+const findTiffStart = (view: DataView): number | null => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+    const length = view.getUint16(offset + 2);
+
+    // APP1 "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return offset + 10;
+    }
+    // Start of scan: no more metadata segments
+    if (marker === 0xffda) return null;
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// "2019:04:06 14:03:11" -> "2019-04-06"
+const exifDateToIso = (value: string) => {
+  const match = /^(\d{4}):(\d{2}):(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+};
+
+export const parseExifMetadata = (buffer: ArrayBuffer): PhotoMetadata => {
+  try {
+    const view = new DataView(buffer);
+    const tiffStart = findTiffStart(view);
+    if (tiffStart === null) return {};
+
+    const little = view.getUint16(tiffStart) === 0x4949; // "II"
+    const tags: TagValues = new Map();
+    readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little, tags);
+
+    const exifIfd = tags.get(TAG_EXIF_IFD);
+    if (typeof exifIfd === 'number') readIfd(view, tiffStart, exifIfd, little, tags);
+
+    const text = (tag: number) => {
+      const value = tags.get(tag);
+      return typeof value === 'string' && value.length > 0 ? value : undefined;
+    };
+    const date = text(TAG_DATE_TIME_ORIGINAL);
+
+    return {
+      title: text(TAG_XP_TITLE),
+      caption: text(TAG_IMAGE_DESCRIPTION),
+      date: date ? exifDateToIso(date) : undefined,
+      credit: text(TAG_ARTIST) ?? text(TAG_COPYRIGHT),
+    };
+  } catch {
+    return {};
+  }
+};
+
+export const readExifMetadata = async (blob: Blob): Promise<PhotoMetadata> => {
+  if (blob.type && blob.type !== 'image/jpeg') return {};
+  return parseExifMetadata(await blob.slice(0, HEADER_BYTES).arrayBuffer());
+};
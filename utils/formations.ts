@@ -0,0 +1,186 @@
+import * as THREE from 'three';
+import { FormationId, SceneAction } from '../types';
+import { Rng, createRng, deriveSeed } from './random';
+
+// Galaxy formations: where each blossom (and polaroid) goes when the tree expands. Every
+// formation is its own target buffer, and the shader morphs between any two of them.
+
+export interface FormationInfo {
+  id: FormationId;
+  label: string;
+  orbit: number; // Weight of rotation as a rigid body...
+  shear: number; // ...and of differential rotation, inner parts faster (smears any shape but a round one)
+}
+
+export const FORMATIONS: FormationInfo[] = [
+  { id: 'spiral', label: 'Spiral', orbit: 1, shear: 0 },
+  { id: 'shell', label: 'Shell', orbit: 0, shear: 1 },
+  { id: 'torus', label: 'Ring', orbit: 0, shear: 1 },
+  { id: 'heart', label: 'Heart', orbit: 0, shear: 0 },
+  { id: 'helix', label: 'Helix', orbit: 1, shear: 0 },
+  { id: 'nebula', label: 'Nebula', orbit: 1, shear: 0 },
+];
+
+export const DEFAULT_FORMATION: FormationId = 'spiral';
+
+export const isFormationId = (value: string | null): value is FormationId =>
+  FORMATIONS.some((formation) => formation.id === value);
+
+// Trigger actions that pick a formation directly (cycleFormation steps through FORMATIONS)
+export const FORMATION_ACTIONS: Partial<Record<SceneAction, FormationId>> = {
+  formSpiral: 'spiral',
+  formShell: 'shell',
+  formTorus: 'torus',
+  formHeart: 'heart',
+  formHelix: 'helix',
+  formNebula: 'nebula',
+};
+
+export const formationInfo = (id: FormationId) => FORMATIONS.find((formation) => formation.id === id)!;
+
+// Standard normal, Box-Muller
+const gaussian = (rng: Rng) => Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+
+// One point of a formation, drawn with `rng`
+type FormationSampler = (rng: Rng, out: THREE.Vector3) => THREE.Vector3;
+
+// Arms wound as log spirals around a flattened bulge; the seed picks the arm count and winding
+const spiralGalaxy = (structure: Rng): FormationSampler => {
+  const arms = 2 + Math.floor(structure() * 3);
+  const twist = 1.6 + structure() * 0.8;
+  return (rng, out) => {
+    if (rng() < 0.15) {
+      return out.set(gaussian(rng) * 14, gaussian(rng) * 7, gaussian(rng) * 14);
+    }
+    const t = rng();
+    const r = 15 + 185 * t;
+    const angle = (Math.floor(rng() * arms) / arms) * Math.PI * 2 + twist * Math.log(r / 15) + gaussian(rng) * 0.22;
+    return out.set(Math.cos(angle) * r, gaussian(rng) * (8 - 5 * t), Math.sin(angle) * r);
+  };
+};
+
+// Ring around the viewer, denser toward the middle of its tube
+const torus: FormationSampler = (rng, out) => {
+  const around = rng() * Math.PI * 2;
+  const tube = rng() * Math.PI * 2;
+  const r = Math.abs(gaussian(rng)) * 12;
+  const ring = 110 + Math.cos(tube) * r;
+  return out.set(Math.cos(around) * ring, Math.sin(tube) * r, Math.sin(around) * ring);
+};
+
+// Facing the camera, crowded toward the outline so the shape reads
+const heart: FormationSampler = (rng, out) => {
+  const t = rng() * Math.PI * 2;
+  const fill = Math.pow(rng(), 0.35);
+  const x = 16 * Math.pow(Math.sin(t), 3);
+  const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+  return out.set(x * fill * 3.5, 10 + y * fill * 3.5, gaussian(rng) * 6 * (1 - fill * 0.6));
+};
+
+// Two strands around the vertical axis, joined by rungs
+const helix: FormationSampler = (rng, out) => {
+  const radius = 24;
+  const turn = 0.05; // rad per unit of height
+  let y = -90 + rng() * 200;
+  let reach = radius;
+  let angle: number;
+  if (rng() < 0.2) {
+    y = Math.round(y / 7) * 7;
+    reach = radius * (rng() * 2 - 1);
+    angle = y * turn;
+  } else {
+    angle = y * turn + (rng() < 0.5 ? 0 : Math.PI);
+  }
+  return out.set(
+    Math.cos(angle) * reach + gaussian(rng) * 1.2,
+    y + gaussian(rng) * 1.2,
+    Math.sin(angle) * reach + gaussian(rng) * 1.2
+  );
+};
+
+// Clumps of gas in a faint haze; the seed places the clumps
+const nebula = (structure: Rng): FormationSampler => {
+  const clumps = Array.from({ length: 6 + Math.floor(structure() * 4) }, () => ({
+    center: new THREE.Vector3(gaussian(structure) * 60, gaussian(structure) * 35, gaussian(structure) * 60),
+    size: 15 + structure() * 30,
+  }));
+  return (rng, out) => {
+    if (rng() < 0.2) return out.set(gaussian(rng) * 90, gaussian(rng) * 60, gaussian(rng) * 90);
+    const { center, size } = clumps[Math.floor(rng() * clumps.length)];
+    return out.set(gaussian(rng), gaussian(rng), gaussian(rng)).multiplyScalar(size).add(center);
+  };
+};
+
+// The tree and the photos draw the shell themselves, in their original streams, so a seed
+// still grows the tree it always did
+export type MorphedFormationId = Exclude<FormationId, 'shell'>;
+
+const MORPHED: Record<MorphedFormationId, (structure: Rng) => FormationSampler> = {
+  spiral: spiralGalaxy,
+  torus: () => torus,
+  heart: () => heart,
+  helix: () => helix,
+  nebula,
+};
+
+export const MORPHED_FORMATIONS = Object.keys(MORPHED) as MorphedFormationId[];
+
+// Same seed, same arms and clumps, so the photos land in the shape the blossoms make
+export const createFormationSampler = (id: MorphedFormationId, seed: number): FormationSampler =>
+  MORPHED[id](createRng(deriveSeed(seed, 10 + MORPHED_FORMATIONS.indexOf(id))));
+
+// Target buffers (xyz per particle) for every formation but the shell
+export const createFormationTargets = (count: number, seed: number): Partial<Record<FormationId, Float32Array>> => {
+  const targets: Partial<Record<FormationId, Float32Array>> = {};
+  const point = new THREE.Vector3();
+  MORPHED_FORMATIONS.forEach((id, index) => {
+    const sample = createFormationSampler(id, seed);
+    const rng = createRng(deriveSeed(seed, 20 + index));
+    const array = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) sample(rng, point).toArray(array, i * 3);
+    targets[id] = array;
+  });
+  return targets;
+};
+
+// Blend shared by the particles and the polaroids. A formation picked mid-morph waits for
+// the current one to finish: the shader only holds two targets, so it can't turn back smoothly.
+export interface FormationMorph {
+  from: FormationId;
+  to: FormationId;
+  progress: number; // 0..1
+  next: FormationId | null;
+}
+
+export const FORMATION_MORPH_SECONDS = 2;
+
+export const createFormationMorph = (id: FormationId): FormationMorph => ({ from: id, to: id, progress: 1, next: null });
+
+export const requestFormation = (morph: FormationMorph, id: FormationId) => {
+  if (morph.progress < 1) {
+    morph.next = id === morph.to ? null : id;
+  } else if (id !== morph.to) {
+    Object.assign(morph, { from: morph.to, to: id, progress: 0, next: null });
+  }
+};
+
+export const advanceFormationMorph = (morph: FormationMorph, delta: number) => {
+  if (morph.progress < 1) {
+    morph.progress = Math.min(1, morph.progress + delta / FORMATION_MORPH_SECONDS);
+  } else if (morph.next) {
+    const next = morph.next;
+    morph.next = null;
+    requestFormation(morph, next);
+  }
+};
+
+// Eased share of `to`, as the particles and polaroids both use it
+export const formationBlend = (morph: FormationMorph) => THREE.MathUtils.smootherstep(morph.progress, 0, 1);
+
+// Weights of rigid and differential rotation, blended like the positions
+export const formationMotion = (morph: FormationMorph) => {
+  const from = formationInfo(morph.from);
+  const to = formationInfo(morph.to);
+  const t = formationBlend(morph);
+  return { orbit: THREE.MathUtils.lerp(from.orbit, to.orbit, t), shear: THREE.MathUtils.lerp(from.shear, to.shear, t) };
+};
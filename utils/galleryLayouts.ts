@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+
+// Reveal layouts, computed in the camera's frame (x right, y up, -z forward)
+// so the gallery always opens in front of the viewer, wherever they orbited to.
+
+export type GalleryLayoutId = 'arc' | 'grid' | 'helix' | 'ring';
+
+export const GALLERY_LAYOUTS: { id: GalleryLayoutId; label: string }[] = [
+  { id: 'arc', label: 'Arc' },
+  { id: 'grid', label: 'Grid' },
+  { id: 'helix', label: 'Helix' },
+  { id: 'ring', label: 'Ring' },
+];
+
+export const isGalleryLayoutId = (value: string | null): value is GalleryLayoutId =>
+  GALLERY_LAYOUTS.some((layout) => layout.id === value);
+
+export interface LayoutTarget {
+  position: THREE.Vector3; // World space
+  quaternion: THREE.Quaternion;
+  scale: number;
+}
+
+// 'viewer' turns each photo toward the camera; 'wall' keeps them parallel to the screen
+type Facing = 'viewer' | 'wall';
+
+const placeArc = (index: number, total: number, out: THREE.Vector3): [Facing, number] => {
+  // Fit the sweep to the view instead of wrapping around when the gallery is large
+  const radius = 40;
+  const angleStep = Math.min(0.4, 1.8 / Math.max(total - 1, 1));
+  const angle = (index - (total - 1) / 2) * angleStep;
+  out.set(Math.sin(angle) * radius, (index % 2 === 0 ? 1 : -1) * 3, -Math.cos(angle) * radius);
+  return ['viewer', total > 8 ? 1.6 : 2.5];
+};
+
+const placeGrid = (index: number, total: number, out: THREE.Vector3): [Facing, number] => {
+  const cols = Math.ceil(Math.sqrt(total * 1.5));
+  const rows = Math.ceil(total / cols);
+  const col = index % cols;
+  const row = Math.floor(index / cols);
+  const scale = 1.2;
+  const spacingX = 6 * scale + 1.5;
+  const spacingY = 7.5 * scale + 1.5;
+  // Back off far enough for the whole wall to fit a 75° field of view
+  const distance = Math.max(30, (rows * spacingY) / (2 * Math.tan(THREE.MathUtils.degToRad(37.5))) * 1.1);
+  out.set((col - (cols - 1) / 2) * spacingX, ((rows - 1) / 2 - row) * spacingY, -distance);
+  return ['wall', scale];
+};
+
+const placeHelix = (index: number, total: number, out: THREE.Vector3): [Facing, number] => {
+  // Spirals up around the viewer, starting straight ahead
+  const perTurn = 8;
+  const radius = 32;
+  const angle = (index / perTurn) * Math.PI * 2;
+  const rise = 4.5;
+  out.set(Math.sin(angle) * radius, (index - (total - 1) / 2) * rise, -Math.cos(angle) * radius);
+  return ['viewer', 1.4];
+};
+
+const placeRing = (index: number, total: number, out: THREE.Vector3): [Facing, number] => {
+  // Full circle at eye level; circumference grows with the photo count so frames don't overlap
+  const radius = Math.max(30, (total * 11) / (Math.PI * 2));
+  const angle = (index / total) * Math.PI * 2;
+  out.set(Math.sin(angle) * radius, 0, -Math.cos(angle) * radius);
+  return ['viewer', 1.5];
+};
+
+const PLACERS: Record<GalleryLayoutId, typeof placeArc> = {
+  arc: placeArc,
+  grid: placeGrid,
+  helix: placeHelix,
+  ring: placeRing,
+};
+
+const _local = new THREE.Vector3();
+const _dummy = new THREE.Object3D();
+
+export const computeLayoutTarget = (
+  layout: GalleryLayoutId,
+  index: number,
+  total: number,
+  camera: THREE.Camera,
+  out: LayoutTarget
+): LayoutTarget => {
+  const [facing, scale] = PLACERS[layout](index, total, _local);
+
+  out.position.copy(camera.localToWorld(_local));
+  if (facing === 'wall') {
+    out.quaternion.copy(camera.quaternion);
+  } else {
+    _dummy.position.copy(out.position);
+    _dummy.lookAt(camera.position);
+    out.quaternion.copy(_dummy.quaternion);
+  }
+  out.scale = scale;
+  return out;
+};
+
+export const createLayoutTarget = (): LayoutTarget => ({
+  position: new THREE.Vector3(),
+  quaternion: new THREE.Quaternion(),
+  scale: 1,
+});
@@ -1,17 +1,35 @@
 import * as THREE from 'three';
-import { ParticleData, TreeData, TreeGenParams, PhotoData } from '../types';
+import { FormationId, ParamRange, ParticleData, TreeData, TreeGenParams, PhotoData, PhotoSource } from '../types';
+import { Rng, createRng, deriveSeed, randomRange, randomSeed, shuffle } from './random';
+import { estimateBranchTips } from './treePresets';
+import { MORPHED_FORMATIONS, createFormationSampler, createFormationTargets } from './formations';
 
-// Utility for random float in range
-const randomRange = (min: number, max: number) => Math.random() * (max - min) + min;
+// Centre of a hanging polaroid to the top of its frame (7.5 / 2 at branch scale 0.3)
+export const POLAROID_HANG_OFFSET = 1.125;
 
-// Helper to manage particle buffers
+// Particle attributes written straight into typed arrays, grown by doubling when an estimate
+// falls short. toData() trims them to the particles actually added and shuffles them.
 class ParticleBuffer {
-  positions: number[] = [];
-  targetPositions: number[] = [];
-  colors: number[] = [];
-  sizes: number[] = [];
-  drifts: number[] = [];
-  phases: number[] = [];
+  count = 0;
+  private capacity: number;
+  positions: Float32Array;
+  targetPositions: Float32Array;
+  colors: Float32Array;
+  sizes: Float32Array;
+  drifts: Float32Array;
+  phases: Float32Array;
+  rotations: Float32Array;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(1, Math.ceil(capacity));
+    this.positions = new Float32Array(this.capacity * 3);
+    this.targetPositions = new Float32Array(this.capacity * 3);
+    this.colors = new Float32Array(this.capacity * 3);
+    this.sizes = new Float32Array(this.capacity);
+    this.drifts = new Float32Array(this.capacity * 3);
+    this.phases = new Float32Array(this.capacity);
+    this.rotations = new Float32Array(this.capacity);
+  }
 
   add(
     pos: THREE.Vector3,
@@ -19,51 +37,107 @@ class ParticleBuffer {
     color: THREE.Color,
     size: number,
     drift: THREE.Vector3,
-    phase: number
+    phase: number,
+    rotation: number
   ) {
-    this.positions.push(pos.x, pos.y, pos.z);
-    this.targetPositions.push(targetPos.x, targetPos.y, targetPos.z);
-    this.colors.push(color.r, color.g, color.b);
-    this.sizes.push(size);
-    this.drifts.push(drift.x, drift.y, drift.z);
-    this.phases.push(phase);
+    if (this.count === this.capacity) this.grow();
+    const i = this.count++;
+    pos.toArray(this.positions, i * 3);
+    targetPos.toArray(this.targetPositions, i * 3);
+    color.toArray(this.colors, i * 3);
+    this.sizes[i] = size;
+    drift.toArray(this.drifts, i * 3);
+    this.phases[i] = phase;
+    this.rotations[i] = rotation;
+  }
+
+  private grow() {
+    this.capacity *= 2;
+    const resize = (array: Float32Array, size: number) => {
+      const grown = new Float32Array(this.capacity * size);
+      grown.set(array);
+      return grown;
+    };
+    this.positions = resize(this.positions, 3);
+    this.targetPositions = resize(this.targetPositions, 3);
+    this.colors = resize(this.colors, 3);
+    this.sizes = resize(this.sizes, 1);
+    this.drifts = resize(this.drifts, 3);
+    this.phases = resize(this.phases, 1);
+    this.rotations = resize(this.rotations, 1);
   }
 
-  toData(): ParticleData {
+  // In random order, any prefix is an even sample of the whole tree: lower quality tiers
+  // draw fewer particles with setDrawRange instead of regenerating
+  toData(rng: Rng): ParticleData {
+    const n = this.count;
+    const order = new Uint32Array(n);
+    for (let i = 0; i < n; i++) order[i] = i;
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      const swap = order[i];
+      order[i] = order[j];
+      order[j] = swap;
+    }
+
+    const gather = (array: Float32Array, size: number) => {
+      const result = new Float32Array(n * size);
+      for (let i = 0; i < n; i++) {
+        for (let k = 0; k < size; k++) result[i * size + k] = array[order[i] * size + k];
+      }
+      return result;
+    };
     return {
-      positions: new Float32Array(this.positions),
-      targetPositions: new Float32Array(this.targetPositions),
-      colors: new Float32Array(this.colors),
-      sizes: new Float32Array(this.sizes),
-      drifts: new Float32Array(this.drifts),
-      phases: new Float32Array(this.phases),
+      positions: gather(this.positions, 3),
+      targetPositions: gather(this.targetPositions, 3),
+      colors: gather(this.colors, 3),
+      sizes: gather(this.sizes, 1),
+      drifts: gather(this.drifts, 3),
+      phases: gather(this.phases, 1),
+      rotations: gather(this.rotations, 1),
+      formations: {},
     };
   }
 }
 
-// Procedural Tree Generator - Structural Fractal Algorithm
-export const generateTree = ({ depth, branchLength, startPos }: TreeGenParams): TreeData => {
-  const woodBuffer = new ParticleBuffer();
-  const blossomBuffer = new ParticleBuffer();
+// Wood particles per branch tip, roughly, for the first buffer size
+const WOOD_PER_TIP = 300;
+
+// Procedural Tree Generator - Structural Fractal Algorithm.
+// `onProgress` gets the share of branch tips grown so far (0..1, estimated).
+export const generateTree = (
+  { startPos, seed = randomSeed(), ...shape }: TreeGenParams,
+  onProgress?: (fraction: number) => void
+): TreeData => {
+  const { depth } = shape;
+  const rng = createRng(seed);
+  const range = (min: number, max: number) => randomRange(rng, min, max);
+  const spanOf = ([min, max]: ParamRange) => range(min, max);
+  const countOf = ([min, max]: ParamRange) => min + Math.floor(rng() * (max - min + 1));
+  const expectedTips = estimateBranchTips(shape);
+  const woodBuffer = new ParticleBuffer(expectedTips * WOOD_PER_TIP);
+  const blossomBuffer = new ParticleBuffer(expectedTips * shape.clusters * shape.clusterParticles * 1.2);
   const leafNodes: THREE.Vector3[] = [];
 
-  // Configuration - DARKER TRUNK COLORS
-  const woodColorBase = new THREE.Color('#1a0b08'); // Very dark, almost black brown
-  const woodColorVar = new THREE.Color('#3e2b24'); // Dark bark highlight
-  
-  const blossomColors = [
-    new THREE.Color('#ffb7c5'), // Classic Pink
-    new THREE.Color('#ffc0cb'), // Pink
-    new THREE.Color('#ffe4e1'), // Misty Rose
-    new THREE.Color('#ffffff'), // White
-    new THREE.Color('#ff9eb5'), // Deep Pink (shadows/depth)
-  ];
-
-  const getRandomSpacePos = () => {
-    const r = randomRange(80, 200);
-    const theta = randomRange(0, Math.PI * 2);
-    const phi = Math.acos(randomRange(-1, 1));
-    return new THREE.Vector3(
+  // Configuration - from the species (see utils/treePresets.ts)
+  const woodColorBase = new THREE.Color(shape.woodColor);
+  const woodColorVar = new THREE.Color(shape.woodHighlight);
+  const blossomColors = shape.blossomColors.map((color) => new THREE.Color(color));
+
+  // Scratch values: every particle is written through these rather than fresh clones
+  const temp = {
+    pos: new THREE.Vector3(),
+    target: new THREE.Vector3(),
+    drift: new THREE.Vector3(),
+    clusterCenter: new THREE.Vector3(),
+    color: new THREE.Color(),
+  };
+
+  const randomSpacePos = (out: THREE.Vector3) => {
+    const r = range(80, 200);
+    const theta = range(0, Math.PI * 2);
+    const phi = Math.acos(range(-1, 1));
+    return out.set(
       r * Math.sin(phi) * Math.cos(theta),
       r * Math.sin(phi) * Math.sin(theta),
       r * Math.cos(phi)
@@ -95,39 +169,40 @@ export const generateTree = ({ depth, branchLength, startPos }: TreeGenParams):
 
     for (let i = 0; i < segmentParticles; i++) {
       const t = i / segmentParticles;
-      const pos = new THREE.Vector3().lerpVectors(start, end, t);
+      const pos = temp.pos.lerpVectors(start, end, t);
       
       // Volume distribution (Cylinder)
-      const theta = Math.random() * Math.PI * 2;
+      const theta = rng() * Math.PI * 2;
       
-      let r = Math.random() * radius; // Base radius
+      let r = rng() * radius; // Base radius
 
       // Trunk Flare: Wider at the very bottom (Roots effect)
       if (isTrunk && t < 0.25) {
          const flare = Math.pow((0.25 - t) * 6.0, 2.5); // Stronger exponential flare
-         r += flare * randomRange(0.8, 2.0); 
+         r += flare * range(0.8, 2.0); 
       }
       
       // Roughness/Noise to make it look like bark
-      const roughness = isTrunk ? randomRange(0.9, 1.2) : randomRange(0.9, 1.1);
+      const roughness = isTrunk ? range(0.9, 1.2) : range(0.9, 1.1);
       r *= roughness;
 
-      pos.add(u.clone().multiplyScalar(Math.cos(theta) * r));
-      pos.add(v.clone().multiplyScalar(Math.sin(theta) * r));
+      pos.addScaledVector(u, Math.cos(theta) * r);
+      pos.addScaledVector(v, Math.sin(theta) * r);
 
-      const colorMix = Math.random();
+      const colorMix = rng();
       // Bias towards darker base color
-      const woodColor = woodColorBase.clone().lerp(woodColorVar, Math.pow(colorMix, 3.0));
+      const woodColor = temp.color.copy(woodColorBase).lerp(woodColorVar, Math.pow(colorMix, 3.0));
       
       // Wood particles: Overlap significantly for solid look
       const sizeBase = isTrunk ? 5.0 : 3.0;
       woodBuffer.add(
         pos,
-        getRandomSpacePos(),
+        randomSpacePos(temp.target),
         woodColor,
-        randomRange(sizeBase * 0.9, sizeBase * 1.5),
-        new THREE.Vector3(randomRange(-0.05, 0.05), randomRange(-0.02, 0.02), randomRange(-0.05, 0.05)),
-        Math.random() * Math.PI * 2
+        range(sizeBase * 0.9, sizeBase * 1.5),
+        temp.drift.set(range(-0.05, 0.05), range(-0.02, 0.02), range(-0.05, 0.05)),
+        rng() * Math.PI * 2,
+        rng() * Math.PI * 2
       );
     }
 
@@ -135,23 +210,23 @@ export const generateTree = ({ depth, branchLength, startPos }: TreeGenParams):
     // 2. RECURSION (Fractal Growth)
     // ---------------------------------------------------------
     if (currentDepth > 0) {
-      const branchCount = isTrunk ? Math.floor(randomRange(3, 5)) : Math.floor(randomRange(2, 4));
+      const branchCount = countOf(isTrunk ? shape.trunkBranches : shape.branches);
 
       const tangent = new THREE.Vector3().crossVectors(direction, axis).normalize();
       const bitangent = new THREE.Vector3().crossVectors(direction, tangent).normalize();
 
       for (let i = 0; i < branchCount; i++) {
         const angleStep = (Math.PI * 2) / branchCount;
-        const azimuth = i * angleStep + randomRange(-0.3, 0.3); 
+        const azimuth = i * angleStep + range(-0.3, 0.3); 
 
         let spreadAngle = 0.0;
         
         if (isTrunk) {
-            spreadAngle = randomRange(0.3, 0.6); 
+            spreadAngle = spanOf(shape.trunkSpread);
         } else if (currentDepth > depth - 3) {
-            spreadAngle = randomRange(0.4, 0.9);
+            spreadAngle = spanOf(shape.limbSpread);
         } else {
-            spreadAngle = randomRange(0.3, 0.8);
+            spreadAngle = spanOf(shape.twigSpread);
         }
 
         const x = Math.cos(azimuth) * Math.sin(spreadAngle);
@@ -159,20 +234,20 @@ export const generateTree = ({ depth, branchLength, startPos }: TreeGenParams):
         const z = Math.cos(spreadAngle);
 
         const nextDir = direction.clone().multiplyScalar(z)
-            .add(tangent.clone().multiplyScalar(x))
-            .add(bitangent.clone().multiplyScalar(y))
+            .addScaledVector(tangent, x)
+            .addScaledVector(bitangent, y)
             .normalize();
 
         // Natural growth
         if (!isTrunk) {
-            nextDir.y += 0.15; // Reach for light
+            nextDir.y += shape.branchLift; // Reach for light
         } else {
-            nextDir.y += 0.4; // Trunk grows up
+            nextDir.y += shape.trunkLift; // Trunk grows up
         }
         nextDir.normalize();
 
-        const nextLength = length * 0.82; 
-        const nextRadius = radius * 0.65; 
+        const nextLength = length * shape.lengthDecay;
+        const nextRadius = radius * shape.radiusDecay;
 
         growBranch(end, nextDir, nextLength, nextRadius, currentDepth - 1);
       }
@@ -183,35 +258,34 @@ export const generateTree = ({ depth, branchLength, startPos }: TreeGenParams):
       leafNodes.push(end);
       
       // Create mini-clusters around the branch tip for organic volume
-      const clusters = 5;
+      const clusters = shape.clusters;
       
       for(let c = 0; c < clusters; c++) {
           // Offset each cluster slightly from the branch tip
-          const clusterOffset = new THREE.Vector3(
-              randomRange(-8, 8),
-              randomRange(-4, 8),
-              randomRange(-8, 8)
-          );
-          const clusterCenter = end.clone().add(clusterOffset);
+          const clusterCenter = temp.clusterCenter.set(
+              range(-8, 8),
+              range(-4, 8),
+              range(-8, 8)
+          ).add(end);
           
           // Density per cluster
-          const particlesPerCluster = 90;
+          const particlesPerCluster = shape.clusterParticles;
 
           // Spread dimensions for this specific cluster
-          const spreadX = randomRange(6, 10);
-          const spreadY = randomRange(4, 7); 
-          const spreadZ = randomRange(6, 10);
+          const spreadX = range(6, 10);
+          const spreadY = range(4, 7); 
+          const spreadZ = range(6, 10);
 
           for (let k = 0; k < particlesPerCluster; k++) {
-            const p = clusterCenter.clone();
+            const p = temp.pos.copy(clusterCenter);
             
             // Ellipsoid distribution
-            const u = Math.random();
-            const v = Math.random();
+            const u = rng();
+            const v = rng();
             const theta = 2 * Math.PI * u;
             const phi = Math.acos(2 * v - 1);
             
-            const rRaw = Math.cbrt(Math.random()); 
+            const rRaw = Math.cbrt(rng()); 
             
             const sinPhi = Math.sin(phi);
             const x = rRaw * sinPhi * Math.cos(theta);
@@ -222,72 +296,110 @@ export const generateTree = ({ depth, branchLength, startPos }: TreeGenParams):
             p.y += y * spreadY;
             p.z += z * spreadZ;
 
-            // Stronger "Weeping" effect on outer edges
-            const weepFactor = Math.max(0, Math.abs(x) - 2) * 0.6;
-            if (Math.random() > 0.3) {
-                p.y -= Math.random() * (3.0 + weepFactor * 2.0);
+            // Hang below the cluster, further toward its outer edges for weeping species
+            const weepFactor = Math.abs(x) * shape.weep;
+            if (rng() > 0.3) {
+                p.y -= rng() * (shape.droop + weepFactor);
             }
 
             // Color selection - gradients
-            const colorIdx = Math.floor(Math.random() * blossomColors.length);
+            const colorIdx = Math.floor(rng() * blossomColors.length);
             const color = blossomColors[colorIdx];
             
             // Size: Center of cluster is dense/large, edges are fine
-            const sizeBase = 6.0;
-            const sizeVar = (1.2 - rRaw) * sizeBase + randomRange(0, 3.0);
+            const sizeBase = shape.blossomSize;
+            const sizeVar = (1.2 - rRaw) * sizeBase + range(0, 3.0);
 
-            const drift = new THREE.Vector3(
-              randomRange(-0.8, 0.8),
-              randomRange(0.2, 1.6),
-              randomRange(-0.8, 0.8)
+            const drift = temp.drift.set(
+              range(-0.8, 0.8),
+              range(0.2, 1.6),
+              range(-0.8, 0.8)
             );
 
             blossomBuffer.add(
               p,
-              getRandomSpacePos(),
+              randomSpacePos(temp.target),
               color,
               sizeVar,
               drift,
-              Math.random() * Math.PI * 2
+              rng() * Math.PI * 2,
+              rng() * Math.PI * 2
             );
           }
       }
+
+      onProgress?.(Math.min(0.99, leafNodes.length / expectedTips));
     }
   };
 
   // Start the trunk
-  growBranch(startPos, new THREE.Vector3(0, 1, 0), branchLength, 10.0, depth);
-
+  growBranch(startPos, new THREE.Vector3(0, 1, 0), shape.branchLength, shape.trunkRadius, depth);
+  onProgress?.(1);
+
+  // Own stream, so the shuffle leaves the shape of the tree alone
+  const orderRng = createRng(deriveSeed(seed, 2));
+  const wood = woodBuffer.toData(orderRng);
+  const blossoms = blossomBuffer.toData(orderRng);
+  // Wood fades out as the tree expands, so only blossoms need the other formations
+  blossoms.formations = createFormationTargets(blossomBuffer.count, seed);
   return {
-    wood: woodBuffer.toData(),
-    blossoms: blossomBuffer.toData(),
+    wood,
+    blossoms,
     leafNodes
   };
 };
 
-export const createPhotoData = (leafNodes: THREE.Vector3[], count: number): PhotoData[] => {
+export const createPhotoData = (
+    leafNodes: THREE.Vector3[],
+    sources: PhotoSource[],
+    count: number,
+    seed = randomSeed()
+): PhotoData[] => {
     const photos: PhotoData[] = [];
-    if (leafNodes.length === 0) return photos;
-
-    const safeCount = Math.min(count, leafNodes.length);
-    const chosenNodes = [...leafNodes].sort(() => 0.5 - Math.random()).slice(0, safeCount);
+    if (leafNodes.length === 0 || sources.length === 0) return photos;
+
+    // Separate stream from the tree so changing photo count doesn't reshuffle anything else
+    const rng: Rng = createRng(deriveSeed(seed, 1));
+    const range = (min: number, max: number) => randomRange(rng, min, max);
+
+    const safeCount = Math.min(count, leafNodes.length, sources.length);
+    const chosenNodes = shuffle(rng, leafNodes).slice(0, safeCount);
+
+    // The shell as it always was; the other formations from the tree's samplers, in a stream of their own
+    const formationRng = createRng(deriveSeed(seed, 3));
+    const samplers = MORPHED_FORMATIONS.map((id) => [id, createFormationSampler(id, seed)] as const);
+    const formationPositions = (shell: THREE.Vector3) => {
+        const positions = { shell } as Record<FormationId, THREE.Vector3>;
+        samplers.forEach(([id, sample]) => {
+            positions[id] = sample(formationRng, new THREE.Vector3());
+        });
+        return positions;
+    };
 
     chosenNodes.forEach((node, index) => {
-        const r = randomRange(100, 200);
-        const theta = randomRange(0, Math.PI * 2);
-        const phi = Math.acos(randomRange(-1, 1));
+        const r = range(100, 200);
+        const theta = range(0, Math.PI * 2);
+        const phi = Math.acos(range(-1, 1));
+        const stringLength = range(5, 9);
 
         photos.push({
             id: index,
-            position: node.clone().add(new THREE.Vector3(0, -10.0, 0)), // Hang lower like charms
-            rotation: new THREE.Euler(randomRange(-0.15, 0.15), randomRange(0, Math.PI * 2), randomRange(-0.15, 0.15)),
-            url: `https://picsum.photos/seed/${index + 420}/300/400.jpg`,
-            targetSpacePos: new THREE.Vector3(
+            anchor: node.clone(),
+            stringLength,
+            position: node.clone().add(new THREE.Vector3(0, -(stringLength + POLAROID_HANG_OFFSET), 0)), // Hang lower like charms
+            rotation: new THREE.Euler(range(-0.15, 0.15), range(0, Math.PI * 2), range(-0.15, 0.15)),
+            url: sources[index].url,
+            aspect: sources[index].aspect,
+            title: sources[index].title,
+            date: sources[index].date,
+            caption: sources[index].caption,
+            credit: sources[index].credit,
+            targetSpacePos: formationPositions(new THREE.Vector3(
                 r * Math.sin(phi) * Math.cos(theta),
                 r * Math.sin(phi) * Math.sin(theta),
                 r * Math.cos(phi)
-            ),
-            targetSpaceRot: new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI),
+            )),
+            targetSpaceRot: new THREE.Euler(rng()*Math.PI, rng()*Math.PI, rng()*Math.PI),
         });
     });
 
@@ -0,0 +1,175 @@
+import { BindableGesture, Gesture, GestureBindings, Handedness, MotionGesture, SceneAction } from '../types';
+import { getUrlParam } from './urlParams';
+
+// Gesture vocabulary and the registry that maps gestures to scene actions.
+// The start screen and HUD are built from this, so remapping a gesture in
+// bindings.json changes the instructions too.
+
+export const GESTURES: Gesture[] = [
+  'FIST',
+  'OPEN_HAND',
+  'ONE_FINGER',
+  'TWO_FINGERS',
+  'COUNT_1',
+  'COUNT_2',
+  'COUNT_3',
+  'COUNT_4',
+];
+
+export const MOTION_GESTURES: MotionGesture[] = [
+  'SWIPE_LEFT',
+  'SWIPE_RIGHT',
+  'SWIPE_UP',
+  'SWIPE_DOWN',
+  'WAVE',
+  'CIRCLE_CW',
+  'CIRCLE_CCW',
+  'PUSH',
+];
+
+export const GESTURE_INFO: Record<BindableGesture, { icon: string; label: string }> = {
+  NONE: { icon: '·', label: 'No Hand' },
+  FIST: { icon: '✊', label: 'Fist' },
+  OPEN_HAND: { icon: '✋', label: 'Open Hand' },
+  ONE_FINGER: { icon: '☝️', label: '1 Finger' },
+  TWO_FINGERS: { icon: '✌️', label: '2 Fingers' },
+  COUNT_1: { icon: '👍', label: 'Other 1' },
+  COUNT_2: { icon: '🤙', label: 'Other 2' },
+  COUNT_3: { icon: '🤟', label: '3 Fingers' },
+  COUNT_4: { icon: '🖖', label: '4 Fingers' },
+  SWIPE_LEFT: { icon: '👈', label: 'Swipe Left' },
+  SWIPE_RIGHT: { icon: '👉', label: 'Swipe Right' },
+  SWIPE_UP: { icon: '👆', label: 'Swipe Up' },
+  SWIPE_DOWN: { icon: '👇', label: 'Swipe Down' },
+  WAVE: { icon: '👋', label: 'Wave' },
+  CIRCLE_CW: { icon: '🔃', label: 'Circle ↻' },
+  CIRCLE_CCW: { icon: '🔄', label: 'Circle ↺' },
+  PUSH: { icon: '🫸', label: 'Push' },
+};
+
+export const isMotionGesture = (gesture: BindableGesture): gesture is MotionGesture =>
+  (MOTION_GESTURES as string[]).includes(gesture);
+
+// 'hold' actions run while the gesture is held; 'trigger' actions fire once when it starts.
+// Motion gestures are instantaneous, so they can only be bound to trigger actions.
+export type ActionMode = 'hold' | 'trigger';
+
+export const ACTION_INFO: Record<SceneAction, { label: string; chip: string; activeClass: string; mode: ActionMode }> = {
+  collapse: { label: 'Reform Tree', chip: 'TREE', activeClass: 'border-green-400 text-green-400 bg-green-900/30', mode: 'hold' },
+  expand: { label: 'Galaxy Mode', chip: 'GALAXY', activeClass: 'border-purple-400 text-purple-400 bg-purple-900/30', mode: 'hold' },
+  hueCycle: { label: 'Cycle Color', chip: 'COLOR', activeClass: 'border-yellow-400 text-yellow-400 bg-yellow-900/30', mode: 'hold' },
+  revealPhotos: { label: 'Inspect Photos', chip: 'PHOTO', activeClass: 'border-blue-400 text-blue-400 bg-blue-900/30', mode: 'hold' },
+  cycleLayout: { label: 'Next Photo Layout', chip: 'LAYOUT', activeClass: 'border-pink-400 text-pink-400 bg-pink-900/30', mode: 'trigger' },
+  screenshot: { label: 'Screenshot', chip: 'SNAP', activeClass: 'border-white text-white bg-white/10', mode: 'trigger' },
+  spinGalaxy: { label: 'Spin Galaxy', chip: 'SPIN', activeClass: 'border-purple-400 text-purple-400 bg-purple-900/30', mode: 'trigger' },
+  nextPhoto: { label: 'Next Photo (while inspecting)', chip: 'NEXT', activeClass: 'border-blue-400 text-blue-400 bg-blue-900/30', mode: 'trigger' },
+  prevPhoto: { label: 'Previous Photo (while inspecting)', chip: 'PREV', activeClass: 'border-blue-400 text-blue-400 bg-blue-900/30', mode: 'trigger' },
+  cycleFormation: { label: 'Next Galaxy Formation', chip: 'FORM', activeClass: 'border-purple-400 text-purple-400 bg-purple-900/30', mode: 'trigger' },
+  formSpiral: { label: 'Spiral Galaxy', chip: 'SPIRAL', activeClass: 'border-purple-400 text-purple-400 bg-purple-900/30', mode: 'trigger' },
+  formShell: { label: 'Shell Galaxy', chip: 'SHELL', activeClass: 'border-purple-400 text-purple-400 bg-purple-900/30', mode: 'trigger' },
+  formTorus: { label: 'Ring Galaxy', chip: 'RING', activeClass: 'border-purple-400 text-purple-400 bg-purple-900/30', mode: 'trigger' },
+  formHeart: { label: 'Heart Galaxy', chip: 'HEART', activeClass: 'border-purple-400 text-purple-400 bg-purple-900/30', mode: 'trigger' },
+  formHelix: { label: 'Helix Galaxy', chip: 'HELIX', activeClass: 'border-purple-400 text-purple-400 bg-purple-900/30', mode: 'trigger' },
+  formNebula: { label: 'Nebula Galaxy', chip: 'NEBULA', activeClass: 'border-purple-400 text-purple-400 bg-purple-900/30', mode: 'trigger' },
+};
+
+export const DEFAULT_BINDINGS: GestureBindings = {
+  FIST: 'collapse',
+  OPEN_HAND: 'expand',
+  ONE_FINGER: 'hueCycle',
+  TWO_FINGERS: 'revealPhotos',
+  SWIPE_LEFT: 'nextPhoto',
+  SWIPE_RIGHT: 'prevPhoto',
+  SWIPE_UP: 'cycleFormation',
+  CIRCLE_CW: 'spinGalaxy',
+  CIRCLE_CCW: 'spinGalaxy',
+};
+
+const isGesture = (value: string): value is BindableGesture => Object.hasOwn(GESTURE_INFO, value) && value !== 'NONE';
+const isSceneAction = (value: unknown): value is SceneAction => typeof value === 'string' && Object.hasOwn(ACTION_INFO, value);
+
+// Config format: { "COUNT_3": "screenshot", "ONE_FINGER": null, ... }
+// Entries override the defaults; null unbinds a gesture. Invalid entries are skipped with a warning.
+export const parseGestureBindings = (json: unknown, base: GestureBindings = DEFAULT_BINDINGS): GestureBindings => {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error('Gesture bindings must be an object of { GESTURE: action }');
+  }
+
+  const bindings: GestureBindings = { ...base };
+  Object.entries(json as Record<string, unknown>).forEach(([gesture, action]) => {
+    if (!isGesture(gesture)) {
+      console.warn(`Gesture bindings: unknown gesture "${gesture}"`);
+    } else if (action === null) {
+      delete bindings[gesture];
+    } else if (isSceneAction(action)) {
+      if (isMotionGesture(gesture) && ACTION_INFO[action].mode === 'hold') {
+        console.warn(`Gesture bindings: ${gesture} is a motion gesture and can't hold "${action}"`);
+      } else {
+        bindings[gesture] = action;
+      }
+    } else {
+      console.warn(`Gesture bindings: unknown action "${String(action)}" for ${gesture}`);
+    }
+  });
+  return bindings;
+};
+
+// Shared bindings plus optional per-hand sets, so each hand can have its own actions
+export interface BindingConfig {
+  bindings: GestureBindings;
+  hands: Partial<Record<Handedness, GestureBindings>>; // Complete sets: shared bindings with the hand's overrides
+}
+
+export const DEFAULT_BINDING_CONFIG: BindingConfig = { bindings: DEFAULT_BINDINGS, hands: {} };
+
+// Config format: shared entries as above, plus optional "left" / "right" objects that
+// override them for that hand only: { "FIST": "collapse", "left": { "FIST": "hueCycle" } }
+export const parseBindingConfig = (json: unknown): BindingConfig => {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error('Gesture bindings must be an object of { GESTURE: action }');
+  }
+
+  const shared: Record<string, unknown> = {};
+  const perHand: [Handedness, unknown][] = [];
+  Object.entries(json as Record<string, unknown>).forEach(([key, value]) => {
+    if (key === 'left') perHand.push(['Left', value]);
+    else if (key === 'right') perHand.push(['Right', value]);
+    else shared[key] = value;
+  });
+
+  const bindings = parseGestureBindings(shared);
+  const hands: BindingConfig['hands'] = {};
+  perHand.forEach(([hand, overrides]) => {
+    hands[hand] = parseGestureBindings(overrides, bindings);
+  });
+  return { bindings, hands };
+};
+
+export const bindingsForHand = (config: BindingConfig, hand: Handedness | null): GestureBindings =>
+  (hand && config.hands[hand]) || config.bindings;
+
+// Entries of a hand's set that differ from the shared one
+export const handOverrides = (config: BindingConfig, hand: Handedness) => {
+  const own = config.hands[hand];
+  if (!own) return [];
+  return boundGestures(own).filter(({ gesture, action }) => config.bindings[gesture] !== action);
+};
+
+// ./bindings.json next to the app, or ?bindings=<url>; defaults if neither exists
+export const loadGestureBindings = async (): Promise<BindingConfig> => {
+  const url = getUrlParam('bindings') ?? './bindings.json';
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return DEFAULT_BINDING_CONFIG;
+    return parseBindingConfig(await response.json());
+  } catch (e) {
+    if (getUrlParam('bindings')) console.warn(`Could not load gesture bindings from ${url}:`, e);
+    return DEFAULT_BINDING_CONFIG;
+  }
+};
+
+// Bound gestures in display order, poses first
+export const boundGestures = (bindings: GestureBindings) =>
+  [...GESTURES, ...MOTION_GESTURES]
+    .filter((gesture) => bindings[gesture])
+    .map((gesture) => ({ gesture, action: bindings[gesture]! }));
@@ -0,0 +1,172 @@
+import { Gesture } from '../types';
+
+// Gesture recognition state machine. Raw per-frame classifications feed
+// per-gesture confidences; a gesture only becomes active once it clearly
+// leads (hysteresis) for its minimum hold time, and a lost hand keeps its
+// gesture for a short grace period before it counts as gone.
+
+export interface GestureEvent {
+  type: 'start' | 'hold' | 'end';
+  gesture: Gesture;
+  durationMs: number; // Time since the gesture started
+  timestamp: number;
+}
+
+export interface RecognizerOptions {
+  riseMs: number; // Time constant for confidence to build while a pose is observed
+  fallMs: number; // ...and to fade once it isn't
+  enterThreshold: number; // Confidence a candidate needs before it can take over
+  exitThreshold: number; // Active gesture is dropped below this
+  switchMargin: number; // Candidate must beat the active gesture by this much
+  minHoldMs: Partial<Record<Gesture, number>>; // How long a candidate must lead before it starts
+  defaultMinHoldMs: number;
+  lostGraceMs: number; // Keep the gesture this long after the hand disappears
+}
+
+export const DEFAULT_RECOGNIZER_OPTIONS: RecognizerOptions = {
+  riseMs: 90,
+  fallMs: 160,
+  enterThreshold: 0.6,
+  exitThreshold: 0.3,
+  switchMargin: 0.15,
+  minHoldMs: {
+    // OPEN_HAND and COUNT_4 differ by one thumb, so they need to be held longer
+    OPEN_HAND: 220,
+    COUNT_4: 260,
+    COUNT_3: 200,
+  },
+  defaultMinHoldMs: 140,
+  lostGraceMs: 600,
+};
+
+export interface RecognizerState {
+  gesture: Gesture;
+  confidence: number; // Of the active gesture
+  confidences: Partial<Record<Gesture, number>>;
+  isTracking: boolean; // False once the grace period has run out
+  events: GestureEvent[];
+}
+
+export interface GestureObservation {
+  gesture: Gesture;
+  confidence: number; // How sure the classifier is about this frame, 0..1
+}
+
+export class GestureRecognizer {
+  private options: RecognizerOptions;
+  private confidences: Partial<Record<Gesture, number>> = {};
+  private active: Gesture = 'NONE';
+  private activeSince = 0;
+  private candidate: Gesture = 'NONE';
+  private candidateSince = 0;
+  private lastSeen = -Infinity;
+  private lastUpdate: number | null = null;
+
+  constructor(options: Partial<RecognizerOptions> = {}) {
+    this.options = { ...DEFAULT_RECOGNIZER_OPTIONS, ...options };
+  }
+
+  get gesture() {
+    return this.active;
+  }
+
+  reset() {
+    this.confidences = {};
+    this.active = 'NONE';
+    this.candidate = 'NONE';
+    this.lastSeen = -Infinity;
+    this.lastUpdate = null;
+  }
+
+  // Feed one frame. `observation` is null when no hand was detected.
+  update(observation: GestureObservation | null, now: number): RecognizerState {
+    const o = this.options;
+    const events: GestureEvent[] = [];
+    const dt = this.lastUpdate === null ? 0 : Math.max(0, now - this.lastUpdate);
+    this.lastUpdate = now;
+
+    // --- CONFIDENCES ---
+    const rise = 1 - Math.exp(-dt / o.riseMs);
+    const fall = 1 - Math.exp(-dt / o.fallMs);
+    const first = dt === 0;
+
+    if (observation) {
+      this.lastSeen = now;
+      (Object.keys(this.confidences) as Gesture[]).forEach((g) => {
+        if (g !== observation.gesture) this.confidences[g]! -= this.confidences[g]! * fall;
+      });
+      const current = this.confidences[observation.gesture] ?? 0;
+      // The very first frame has no time base; let it seed the confidence directly
+      this.confidences[observation.gesture] = first
+        ? observation.confidence * 0.5
+        : current + (observation.confidence - current) * rise;
+    }
+    // While the hand is missing confidences are frozen: the grace period decides
+
+    const handLost = now - this.lastSeen > o.lostGraceMs;
+    if (handLost) {
+      this.confidences = {};
+      if (this.active !== 'NONE') this.end(now, events);
+      this.candidate = 'NONE';
+      return this.state(false, events);
+    }
+
+    // --- TRANSITIONS ---
+    const activeConfidence = this.active === 'NONE' ? 0 : this.confidences[this.active] ?? 0;
+
+    let leader: Gesture = 'NONE';
+    let leaderConfidence = 0;
+    (Object.keys(this.confidences) as Gesture[]).forEach((g) => {
+      const c = this.confidences[g]!;
+      if (g !== this.active && c > leaderConfidence) {
+        leader = g;
+        leaderConfidence = c;
+      }
+    });
+
+    const qualifies = leader !== 'NONE'
+      && leaderConfidence >= o.enterThreshold
+      && leaderConfidence >= activeConfidence + o.switchMargin;
+
+    if (qualifies) {
+      if (this.candidate !== leader) {
+        this.candidate = leader;
+        this.candidateSince = now;
+      }
+      const minHold = o.minHoldMs[leader] ?? o.defaultMinHoldMs;
+      if (now - this.candidateSince >= minHold) {
+        if (this.active !== 'NONE') this.end(now, events);
+        this.active = leader;
+        this.activeSince = now;
+        this.candidate = 'NONE';
+        events.push({ type: 'start', gesture: leader, durationMs: 0, timestamp: now });
+      }
+    } else {
+      this.candidate = 'NONE';
+      if (this.active !== 'NONE' && activeConfidence < o.exitThreshold && observation) {
+        this.end(now, events);
+      }
+    }
+
+    if (this.active !== 'NONE' && !events.some((e) => e.type === 'start')) {
+      events.push({ type: 'hold', gesture: this.active, durationMs: now - this.activeSince, timestamp: now });
+    }
+
+    return this.state(true, events);
+  }
+
+  private end(now: number, events: GestureEvent[]) {
+    events.push({ type: 'end', gesture: this.active, durationMs: now - this.activeSince, timestamp: now });
+    this.active = 'NONE';
+  }
+
+  private state(isTracking: boolean, events: GestureEvent[]): RecognizerState {
+    return {
+      gesture: this.active,
+      confidence: this.active === 'NONE' ? 0 : this.confidences[this.active] ?? 0,
+      confidences: { ...this.confidences },
+      isTracking,
+      events,
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { FilesetResolver, HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import wasmLoaderUrl from '@mediapipe/tasks-vision/wasm/vision_wasm_internal.js?url';
+import wasmBinaryUrl from '@mediapipe/tasks-vision/wasm/vision_wasm_internal.wasm?url';
+import noSimdLoaderUrl from '@mediapipe/tasks-vision/wasm/vision_wasm_nosimd_internal.js?url';
+import noSimdBinaryUrl from '@mediapipe/tasks-vision/wasm/vision_wasm_nosimd_internal.wasm?url';
+import { Landmark } from './handPose';
+import { RawHand } from './handPipeline';
+
+// Typed access to MediaPipe's hand landmarker. The WASM runtime is bundled by Vite
+// and the model is served from public/models, so tracking needs no network.
+
+export const HAND_MODEL_URL = `${import.meta.env.BASE_URL}models/hand_landmarker.task`;
+
+export const HAND_CONNECTIONS: [number, number][] = HandLandmarker.HAND_CONNECTIONS.map(({ start, end }) => [start, end]);
+
+let shared: Promise<HandLandmarker> | null = null;
+let users = 0;
+
+const createLandmarker = async () => {
+  // Check the model first: a missing file otherwise surfaces as an opaque WASM error
+  const response = await fetch(HAND_MODEL_URL).catch(() => null);
+  if (!response?.ok) {
+    throw new Error(`Hand model missing at ${HAND_MODEL_URL} (${response ? `HTTP ${response.status}` : 'not reachable'}); run "npm run fetch-model"`);
+  }
+  const model = new Uint8Array(await response.arrayBuffer());
+
+  const simd = await FilesetResolver.isSimdSupported();
+  const fileset = simd
+    ? { wasmLoaderPath: wasmLoaderUrl, wasmBinaryPath: wasmBinaryUrl }
+    : { wasmLoaderPath: noSimdLoaderUrl, wasmBinaryPath: noSimdBinaryUrl };
+
+  // The GPU delegate is faster but needs WebGL2; the CPU one runs anywhere
+  let lastError: unknown;
+  for (const delegate of ['GPU', 'CPU'] as const) {
+    try {
+      return await HandLandmarker.createFromOptions(fileset, {
+        baseOptions: { modelAssetBuffer: model, delegate },
+        runningMode: 'VIDEO',
+        numHands: 2,
+        minHandDetectionConfidence: 0.7,
+        minHandPresenceConfidence: 0.7,
+        minTrackingConfidence: 0.7,
+      });
+    } catch (e) {
+      lastError = e;
+    }
+  }
+  throw new Error(`Hand model failed to start: ${lastError instanceof Error ? lastError.message : lastError}`);
+};
+
+// One landmarker for the page, shared by every tracker and closed once none is left.
+// A failed load is retried by the next tracker.
+export const acquireHandLandmarker = (): { landmarker: Promise<HandLandmarker>; release: () => void } => {
+  if (!shared) {
+    const created = createLandmarker();
+    created.catch(() => {
+      if (shared === created) shared = null;
+    });
+    shared = created;
+  }
+  const landmarker = shared;
+  users++;
+
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    users--;
+    // Wait a tick: a tracker restarting with new settings takes it straight back
+    setTimeout(() => {
+      if (users > 0 || shared !== landmarker) return;
+      shared = null;
+      landmarker.then((instance) => instance.close(), () => {});
+    });
+  };
+  return { landmarker, release };
+};
+
+// Landmarker results -> plain hands, ready to process or record
+export const readHandLandmarkerResult = (result: HandLandmarkerResult): RawHand[] =>
+  result.landmarks.map((landmarks, i) => ({
+    landmarks: landmarks.map(({ x, y, z }): Landmark => ({ x, y, z })),
+    worldLandmarks: result.worldLandmarks[i]?.map(({ x, y, z }): Landmark => ({ x, y, z })),
+    label: result.handedness[i]?.[0]?.categoryName ?? 'Left',
+    score: result.handedness[i]?.[0]?.score ?? 1,
+  }));
@@ -0,0 +1,236 @@
+import { BimanualReading, Gesture, HandReading, HandUpdate, Handedness, MotionEvent, PointerReading } from '../types';
+import { GestureEvent, GestureRecognizer, RecognizerOptions } from './gestureRecognizer';
+import { DEFAULT_POSE_THRESHOLDS, HandPose, HandPoseThresholds, Landmark, classifyHand, isPinching, measurePalmSize, toSquareSpace } from './handPose';
+import { MotionOptions, MotionTracker } from './motionGestures';
+
+// Everything between MediaPipe's landmark results and the app: handedness, finger
+// counting, gesture recognition, motion gestures, pointer and the two-hand reading.
+// Live tracking and recorded sessions both run through here, so a replay behaves
+// exactly like the camera did. No DOM or React, so it runs under plain Node too.
+
+export const HAND_ORDER: Handedness[] = ['Left', 'Right'];
+
+// One hand as MediaPipe reports it. `label` is MediaPipe's own, mirrored handedness.
+export interface RawHand {
+  landmarks: Landmark[];
+  worldLandmarks?: Landmark[];
+  label: string;
+  score: number;
+}
+
+export interface Detection {
+  landmarks: Landmark[];
+  worldLandmarks?: Landmark[];
+  handedness: Handedness;
+  score: number;
+}
+
+export interface PipelineOutput {
+  update: HandUpdate;
+  detections: Detection[];
+  gestureEvents: { event: GestureEvent; hand: Handedness }[];
+  motionEvents: { event: MotionEvent; hand: Handedness }[];
+}
+
+// Tuning for every stage; anything left out uses that stage's defaults
+export interface HandPipelineOptions {
+  pose: HandPoseThresholds;
+  recognizer: Partial<RecognizerOptions>;
+  motion: Partial<MotionOptions>;
+  smoothing: number; // Palm position low-pass per frame: 0..1, higher follows the hand faster
+}
+
+// --- GESTURE MAPPING --- (what each gesture does lives in utils/gestureBindings)
+export const poseToGesture = ({ count, fingers }: Pick<HandPose, 'count' | 'fingers'>): Gesture => {
+  if (count === 0) return "FIST";
+  if (count === 5) return "OPEN_HAND";
+  if (count === 1 && fingers.index) return "ONE_FINGER";
+  if (count === 2 && fingers.index && fingers.middle) return "TWO_FINGERS";
+  return `COUNT_${count}` as Gesture; // 1-4: 0 and 5 are always FIST / OPEN_HAND
+};
+
+// Everything tracked per hand, so each keeps its own gesture and trajectory
+interface HandChannel {
+  recognizer: GestureRecognizer;
+  motion: MotionTracker;
+  smoothed: { x: number; y: number };
+  palmSize: number | null;
+  pointer: PointerReading;
+  lastCount: number;
+}
+
+const createChannel = (options: HandPipelineOptions): HandChannel => ({
+  recognizer: new GestureRecognizer(options.recognizer),
+  motion: new MotionTracker(options.motion),
+  smoothed: { x: 0.5, y: 0.5 },
+  palmSize: null,
+  pointer: { x: 0.5, y: 0.5, pinching: false },
+  lastCount: 0,
+});
+
+export class HandPipeline {
+  private readonly options: HandPipelineOptions;
+  private channels: Record<Handedness, HandChannel>;
+
+  // `aspect` is the video's width / height, for square-space measurements
+  constructor(private readonly aspect: number, options: Partial<HandPipelineOptions> = {}) {
+    this.options = { pose: DEFAULT_POSE_THRESHOLDS, recognizer: {}, motion: {}, smoothing: 0.25, ...options };
+    this.channels = { Left: createChannel(this.options), Right: createChannel(this.options) };
+  }
+
+  reset() {
+    this.channels = { Left: createChannel(this.options), Right: createChannel(this.options) };
+  }
+
+  process(hands: RawHand[], now: number): PipelineOutput {
+    const gestureEvents: PipelineOutput['gestureEvents'] = [];
+    const motionEvents: PipelineOutput['motionEvents'] = [];
+    const detections = this.readDetections(hands);
+
+    const readings = HAND_ORDER
+      .map((hand) => this.processHand(hand, detections.find((d) => d.handedness === hand), now, gestureEvents, motionEvents))
+      .filter((reading): reading is HandReading => reading !== null);
+
+    // Primary hand: a tracked one before one in its grace period, right before left
+    const primary = [...readings].sort((a, b) =>
+      Number(b.isTracking) - Number(a.isTracking) || (a.handedness === 'Right' ? -1 : 1)
+    )[0];
+
+    const [left, right] = HAND_ORDER.map((hand) => readings.find((r) => r.handedness === hand && r.isTracking));
+
+    return {
+      update: {
+        fingerCount: primary?.fingerCount ?? 0,
+        gesture: primary?.gesture ?? "NONE",
+        confidence: primary?.confidence ?? 0,
+        position: primary?.isTracking ? primary.position : { x: 0.5, y: 0.5 },
+        pointer: primary?.isTracking ? primary.pointer : null,
+        palmSize: primary?.isTracking ? primary.palmSize : null,
+        isTracking: primary?.isTracking ?? false,
+        hands: readings,
+        bimanual: left && right ? this.measureBimanual(left, right) : null,
+      },
+      detections,
+      gestureEvents,
+      motionEvents,
+    };
+  }
+
+  // MediaPipe labels handedness as if the image were mirrored; we send it the raw
+  // camera frame, so its "Left" is the person's right hand. Two hands given the same
+  // label are split by score so each channel gets one.
+  private readDetections(hands: RawHand[]): Detection[] {
+    const detections: Detection[] = hands.map((hand) => ({
+      landmarks: hand.landmarks,
+      worldLandmarks: hand.worldLandmarks,
+      handedness: hand.label === 'Right' ? 'Left' : 'Right',
+      score: hand.score,
+    }));
+    if (detections.length === 2 && detections[0].handedness === detections[1].handedness) {
+      const weaker = detections[0].score < detections[1].score ? detections[0] : detections[1];
+      weaker.handedness = weaker.handedness === 'Left' ? 'Right' : 'Left';
+    }
+    return detections;
+  }
+
+  // One hand's frame: classify, recognise, track motion. Returns null once the hand is fully gone.
+  private processHand(
+    hand: Handedness,
+    detection: Detection | undefined,
+    now: number,
+    gestureEvents: PipelineOutput['gestureEvents'],
+    motionEvents: PipelineOutput['motionEvents']
+  ): HandReading | null {
+    const channel = this.channels[hand];
+
+    if (!detection) {
+      channel.motion.update(null);
+      channel.pointer = { ...channel.pointer, pinching: false };
+      // Within the grace period the last gesture is kept, so a dropped frame doesn't end it
+      const recognized = channel.recognizer.update(null, now);
+      recognized.events.forEach((event) => gestureEvents.push({ event, hand }));
+      if (!recognized.isTracking || recognized.gesture === "NONE") {
+        channel.palmSize = null; // Gone: the next appearance starts from its own size
+        return null;
+      }
+      return {
+        handedness: hand,
+        fingerCount: channel.lastCount,
+        gesture: recognized.gesture,
+        confidence: recognized.confidence,
+        position: channel.smoothed,
+        pointer: channel.pointer,
+        palmSize: channel.palmSize,
+        isTracking: false,
+      };
+    }
+
+    const { landmarks } = detection;
+
+    // --- FINGER COUNTING ---
+    // Joint angles in 3D, so tilted, sideways and distant hands count the same
+    const imageLandmarks = toSquareSpace(landmarks, this.aspect);
+    const pose = classifyHand(detection.worldLandmarks ?? imageLandmarks, hand, this.options.pose);
+    const rawGesture = poseToGesture(pose);
+
+    // Recogniser: confidence, hold times and hysteresis decide the stable gesture.
+    // Ambiguous half-bent fingers count for less, so they can't flip the gesture on their own.
+    const recognized = channel.recognizer.update({ gesture: rawGesture, confidence: detection.score * (0.5 + 0.5 * pose.clarity) }, now);
+    recognized.events.forEach((event) => gestureEvents.push({ event, hand }));
+    channel.lastCount = pose.count;
+
+    // --- CAMERA CONTROL INPUT ---
+    // Use Palm Center (Landmark 9)
+    // Invert X because of mirroring (Screen Left = Hand Left)
+    const normalizedPos = { x: 1.0 - landmarks[9].x, y: landmarks[9].y };
+    const palmSize = measurePalmSize(imageLandmarks);
+
+    // --- MOTION GESTURES ---
+    // Uses the raw palm so the low-pass filter below doesn't eat the flick
+    channel.motion.update({
+      t: now,
+      palm: normalizedPos,
+      tip: { x: 1.0 - landmarks[8].x, y: landmarks[8].y },
+      palmSize, // World landmarks are hand-centred, so no depth cue there
+    }).forEach((event) => motionEvents.push({ event, hand }));
+
+    // Low-pass filter hand position for steadier camera control
+    const { smoothing } = this.options;
+    channel.smoothed = {
+      x: channel.smoothed.x + (normalizedPos.x - channel.smoothed.x) * smoothing,
+      y: channel.smoothed.y + (normalizedPos.y - channel.smoothed.y) * smoothing,
+    };
+
+    // --- DEPTH ---
+    // Apparent palm size stands in for distance; smoothed like the position
+    channel.palmSize = channel.palmSize === null ? palmSize : channel.palmSize + (palmSize - channel.palmSize) * smoothing;
+
+    // --- PINCH CURSOR ---
+    // Between the two fingertips, so the cursor doesn't jump when they close
+    const pointerX = 1.0 - (landmarks[4].x + landmarks[8].x) / 2;
+    const pointerY = (landmarks[4].y + landmarks[8].y) / 2;
+    channel.pointer = {
+      x: channel.pointer.x + (pointerX - channel.pointer.x) * 0.4,
+      y: channel.pointer.y + (pointerY - channel.pointer.y) * 0.4,
+      pinching: isPinching(imageLandmarks, channel.pointer.pinching),
+    };
+
+    return {
+      handedness: hand,
+      fingerCount: pose.count,
+      gesture: recognized.gesture,
+      confidence: recognized.confidence,
+      position: channel.smoothed,
+      pointer: channel.pointer,
+      palmSize: channel.palmSize,
+      isTracking: true,
+    };
+  }
+
+  // Palm-to-palm line in square units (screen widths)
+  private measureBimanual(left: HandReading, right: HandReading): BimanualReading {
+    const dx = right.position.x - left.position.x;
+    const dy = (right.position.y - left.position.y) / this.aspect;
+    return { spread: Math.hypot(dx, dy), twist: Math.atan2(dy, dx) };
+  }
+}
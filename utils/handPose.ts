@@ -0,0 +1,170 @@
+import { Handedness } from '../types';
+
+// Orientation-independent finger classification from MediaPipe's 21 hand
+// landmarks. Everything is measured from joint angles and palm-relative
+// distances in 3D, so counting works whether the hand is upright, tilted or
+// sideways, near or far, left or right.
+
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+export const FINGER_NAMES: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+// Landmark indices: [base, second, third, tip]
+const FINGER_JOINTS: Record<FingerName, [number, number, number, number]> = {
+  thumb: [1, 2, 3, 4],
+  index: [5, 6, 7, 8],
+  middle: [9, 10, 11, 12],
+  ring: [13, 14, 15, 16],
+  pinky: [17, 18, 19, 20],
+};
+
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9;
+const PINKY_MCP = 17;
+
+export interface HandPoseThresholds {
+  fingerBendDeg: number; // Total PIP + DIP bend below which a finger counts as extended
+  thumbBendDeg: number; // Total MCP + IP bend for the thumb
+  thumbReach: number; // Thumb tip to index knuckle, in palm sizes
+}
+
+export const DEFAULT_POSE_THRESHOLDS: HandPoseThresholds = {
+  fingerBendDeg: 70,
+  thumbBendDeg: 60,
+  thumbReach: 0.55,
+};
+
+// How far out to the thumb side of the palm's centre line an extended thumb's tip sits, in palm sizes
+const THUMB_SIDE_MIN = 0.2;
+
+export interface HandPose {
+  fingers: Record<FingerName, boolean>;
+  extension: Record<FingerName, number>; // 0 = clearly curled, 1 = clearly extended
+  count: number;
+  clarity: number; // 0..1: how far every finger is from its threshold
+  palmSize: number; // In the units of the landmarks used
+  palmFacingCamera: boolean | null; // Null when handedness is unknown
+  handedness: Handedness | null;
+}
+
+type Vec = [number, number, number];
+
+const sub = (a: Landmark, b: Landmark): Vec => [a.x - b.x, a.y - b.y, a.z - b.z];
+const length = (v: Vec) => Math.hypot(v[0], v[1], v[2]);
+const dot = (a: Vec, b: Vec) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec, b: Vec): Vec => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const distance = (a: Landmark, b: Landmark) => length(sub(a, b));
+
+// Angle between two bone directions, in degrees (0 = straight continuation)
+const bendAt = (a: Landmark, b: Landmark, c: Landmark) => {
+  const u = sub(b, a);
+  const v = sub(c, b);
+  const denom = length(u) * length(v);
+  if (denom === 0) return 0;
+  return (Math.acos(Math.min(1, Math.max(-1, dot(u, v) / denom))) * 180) / Math.PI;
+};
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Palm size: average of wrist->middle knuckle and the knuckle line, which
+// keeps it stable while the hand rotates
+export const measurePalmSize = (lm: Landmark[]) =>
+  (distance(lm[WRIST], lm[MIDDLE_MCP]) + distance(lm[INDEX_MCP], lm[PINKY_MCP])) / 2;
+
+// Image landmarks have x and y normalised to different axes; stretch x back to square pixels
+export const toSquareSpace = (landmarks: Landmark[], aspect: number): Landmark[] =>
+  landmarks.map((p) => ({ x: p.x * aspect, y: p.y, z: p.z * aspect }));
+
+// What the thresholds are compared against; calibration measures the same numbers
+export interface FingerMeasurements {
+  bend: Record<FingerName, number>; // Degrees over the two joints past the knuckle (MCP + IP for the thumb)
+  thumbReach: number; // Thumb tip to index knuckle, in palm sizes
+}
+
+export const measureFingers = (landmarks: Landmark[]): FingerMeasurements => {
+  const bend = {} as Record<FingerName, number>;
+  FINGER_NAMES.forEach((name) => {
+    const [a, b, c, tip] = FINGER_JOINTS[name];
+    bend[name] = bendAt(landmarks[a], landmarks[b], landmarks[c]) + bendAt(landmarks[b], landmarks[c], landmarks[tip]);
+  });
+  const thumbReach = distance(landmarks[THUMB_TIP], landmarks[INDEX_MCP]) / (measurePalmSize(landmarks) || 1);
+  return { bend, thumbReach };
+};
+
+/**
+ * Classify which fingers are extended.
+ * Prefer MediaPipe's world landmarks (metric, hand-centred); image landmarks
+ * work too once passed through `toSquareSpace`. Handedness should describe the
+ * person's actual hand, not MediaPipe's mirrored label. Knowing it tells which
+ * side of the palm the thumb belongs on, so a straight thumb laid across the
+ * palm reads as folded; without it only the thumb's bend and reach count.
+ */
+export const classifyHand = (
+  landmarks: Landmark[],
+  handedness: Handedness | null = null,
+  thresholds: HandPoseThresholds = DEFAULT_POSE_THRESHOLDS
+): HandPose => {
+  const palmSize = measurePalmSize(landmarks) || 1;
+  const { bend, thumbReach } = measureFingers(landmarks);
+
+  // Palm normal (index knuckle x pinky knuckle from the wrist) points out of the palm
+  // for a right hand and out of the back for a left one.
+  const normal = cross(sub(landmarks[INDEX_MCP], landmarks[WRIST]), sub(landmarks[PINKY_MCP], landmarks[WRIST]));
+  const outOfPalm: Vec | null = handedness ? normal.map((v) => (handedness === 'Right' ? v : -v)) as Vec : null;
+
+  // Seen from the palm side with the fingers up, a right thumb lies right of the wrist -> middle
+  // knuckle line and a left one left of it. Tip offset from that line, in palm sizes.
+  let thumbSide: number | null = null;
+  if (outOfPalm) {
+    const axis = sub(landmarks[MIDDLE_MCP], landmarks[WRIST]);
+    const side = handedness === 'Right' ? cross(axis, outOfPalm) : cross(outOfPalm, axis);
+    thumbSide = dot(sub(landmarks[THUMB_TIP], landmarks[WRIST]), side) / ((length(side) || 1) * palmSize);
+  }
+
+  const extension = {} as Record<FingerName, number>;
+  const fingers = {} as Record<FingerName, boolean>;
+
+  FINGER_NAMES.forEach((name) => {
+    if (name === 'thumb') {
+      // The straightness, how far the tip is from the palm and, for a known hand, which side it is on must agree
+      const straight = clamp01(0.5 + (thresholds.thumbBendDeg - bend.thumb) / 60);
+      const out = clamp01(0.5 + (thumbReach - thresholds.thumbReach) / 0.3);
+      const aside = thumbSide === null ? 1 : clamp01(0.5 + (thumbSide - THUMB_SIDE_MIN) / 0.3);
+      extension.thumb = Math.min(straight, out, aside);
+    } else {
+      // A folded finger's tip comes back toward the wrist
+      const [, b, , tip] = FINGER_JOINTS[name];
+      const tipOut = distance(landmarks[tip], landmarks[WRIST]) > distance(landmarks[b], landmarks[WRIST]);
+      extension[name] = tipOut ? clamp01(0.5 + (thresholds.fingerBendDeg - bend[name]) / 80) : 0;
+    }
+    fingers[name] = extension[name] >= 0.5;
+  });
+
+  const count = FINGER_NAMES.filter((name) => fingers[name]).length;
+  const clarity = FINGER_NAMES.reduce((sum, name) => sum + Math.abs(extension[name] - 0.5) * 2, 0) / FINGER_NAMES.length;
+
+  const palmFacingCamera = outOfPalm ? outOfPalm[2] < 0 : null; // The camera looks down +z
+
+  return { fingers, extension, count, clarity, palmSize, palmFacingCamera, handedness };
+};
+
+// --- PINCH ---
+
+// Thumb tip to index tip, in palm sizes. Two thresholds so a pinch doesn't chatter at the edge.
+export const PINCH_CLOSE = 0.3;
+export const PINCH_OPEN = 0.45;
+
+export const measurePinch = (lm: Landmark[]) =>
+  distance(lm[THUMB_TIP], lm[INDEX_TIP]) / (measurePalmSize(lm) || 1);
+
+export const isPinching = (lm: Landmark[], wasPinching: boolean) =>
+  measurePinch(lm) < (wasPinching ? PINCH_OPEN : PINCH_CLOSE);
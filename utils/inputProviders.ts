@@ -0,0 +1,204 @@
+import { Gesture, MotionEvent, MotionGesture } from '../types';
+import { VirtualHand } from './virtualHand';
+
+// Camera-free input providers. Each attaches its listeners, reports into a
+// VirtualHand and returns a function that detaches it again; any number can
+// run side by side.
+
+// 'camera' (hand tracking) and 'wind' (whole-frame motion) have their own components
+export type InputId = 'camera' | 'wind' | 'keyboard' | 'mouse' | 'touch';
+export type ProviderInputId = Exclude<InputId, 'camera' | 'wind'>;
+
+export const INPUTS: { id: InputId; label: string }[] = [
+  { id: 'camera', label: 'Camera' },
+  { id: 'wind', label: 'Wind' },
+  { id: 'keyboard', label: 'Keyboard' },
+  { id: 'mouse', label: 'Mouse' },
+  { id: 'touch', label: 'Touch' },
+];
+
+export const DEFAULT_INPUTS: InputId[] = ['camera', 'keyboard'];
+
+// Used when the camera is off or can't start
+export const FALLBACK_INPUTS: InputId[] = ['keyboard', 'mouse', 'touch'];
+
+const isInputId = (value: string): value is InputId => INPUTS.some((input) => input.id === value);
+
+// Inputs that need the webcam
+export const CAMERA_INPUTS: InputId[] = ['camera', 'wind'];
+
+// ?input=camera,mouse,...; unknown entries are skipped
+export const parseInputList = (value: string | null): InputId[] => {
+  if (!value) return DEFAULT_INPUTS;
+  const inputs = value.split(',').map((entry) => entry.trim().toLowerCase()).filter(isInputId);
+  return inputs.length > 0 ? inputs : DEFAULT_INPUTS;
+};
+
+export type InputProvider = (hand: VirtualHand) => () => void;
+
+// --- KEYBOARD ---
+
+// Held keys hold a pose; the others fire a motion gesture
+export const KEY_GESTURES: Record<string, Gesture> = {
+  '0': 'FIST',
+  '1': 'ONE_FINGER',
+  '2': 'TWO_FINGERS',
+  '3': 'COUNT_3',
+  '4': 'COUNT_4',
+  '5': 'OPEN_HAND',
+};
+
+export const KEY_MOTIONS: Record<string, { gesture: MotionGesture; direction: MotionEvent['direction'] }> = {
+  ArrowLeft: { gesture: 'SWIPE_LEFT', direction: { x: -1, y: 0, z: 0 } },
+  ArrowRight: { gesture: 'SWIPE_RIGHT', direction: { x: 1, y: 0, z: 0 } },
+  ArrowUp: { gesture: 'SWIPE_UP', direction: { x: 0, y: -1, z: 0 } },
+  ArrowDown: { gesture: 'SWIPE_DOWN', direction: { x: 0, y: 1, z: 0 } },
+  c: { gesture: 'CIRCLE_CW', direction: { x: 0, y: 0, z: 1 } },
+  C: { gesture: 'CIRCLE_CCW', direction: { x: 0, y: 0, z: -1 } },
+  w: { gesture: 'WAVE', direction: { x: 1, y: 0, z: 0 } },
+  p: { gesture: 'PUSH', direction: { x: 0, y: 0, z: 1 } },
+};
+
+const PINCH_KEY = ' ';
+
+// Speed a key press stands in for, in each gesture's own units
+const KEY_MOTION_SPEED = 1.5;
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const keyboardProvider: InputProvider = (hand) => {
+  const held: string[] = []; // Pose keys, most recent last
+
+  const refresh = () => {
+    const key = held[held.length - 1];
+    hand.setGesture('keyboard', key ? KEY_GESTURES[key] : null);
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+    if (e.key in KEY_GESTURES) {
+      if (!held.includes(e.key)) held.push(e.key);
+      refresh();
+    } else if (e.key in KEY_MOTIONS) {
+      if (e.repeat) return;
+      const { gesture, direction } = KEY_MOTIONS[e.key];
+      hand.pushMotion(gesture, direction, KEY_MOTION_SPEED);
+      e.preventDefault();
+    } else if (e.key === PINCH_KEY) {
+      hand.setPinching('keyboard', true);
+      e.preventDefault();
+    }
+  };
+
+  const onKeyUp = (e: KeyboardEvent) => {
+    const index = held.indexOf(e.key);
+    if (index >= 0) {
+      held.splice(index, 1);
+      refresh();
+    }
+    if (e.key === PINCH_KEY) hand.setPinching('keyboard', false);
+  };
+
+  // Keys released while the window was in the background never send keyup
+  const onBlur = () => {
+    held.length = 0;
+    refresh();
+    hand.setPinching('keyboard', false);
+  };
+
+  window.addEventListener('keydown', onKeyDown);
+  window.addEventListener('keyup', onKeyUp);
+  window.addEventListener('blur', onBlur);
+  return () => {
+    window.removeEventListener('keydown', onKeyDown);
+    window.removeEventListener('keyup', onKeyUp);
+    window.removeEventListener('blur', onBlur);
+    onBlur();
+  };
+};
+
+// --- MOUSE ---
+
+// The pointer is the joystick and the cursor, as the palm would be
+const mouseProvider: InputProvider = (hand) => {
+  const onMove = (e: MouseEvent) => {
+    hand.setPosition('mouse', { x: e.clientX / window.innerWidth, y: e.clientY / window.innerHeight });
+  };
+  const onLeave = (e: MouseEvent) => {
+    if (!e.relatedTarget) hand.setPosition('mouse', null);
+  };
+
+  window.addEventListener('mousemove', onMove);
+  document.addEventListener('mouseout', onLeave);
+  return () => {
+    window.removeEventListener('mousemove', onMove);
+    document.removeEventListener('mouseout', onLeave);
+    hand.setPosition('mouse', null);
+  };
+};
+
+// --- TOUCH ---
+
+const TAP_MS = 250; // Shorter than this is a tap...
+const TAP_LATCH_MS = 1500; // ...whose pose is then held this long, so hold actions register
+
+const COUNT_GESTURES: Record<number, Gesture> = {
+  1: 'ONE_FINGER',
+  2: 'TWO_FINGERS',
+  3: 'COUNT_3',
+  4: 'COUNT_4',
+  5: 'OPEN_HAND',
+};
+
+// One finger steers like the palm; several fingers down hold that finger count,
+// and a quick multi-finger tap holds it briefly
+const touchProvider: InputProvider = (hand) => {
+  let startedAt = 0;
+  let maxFingers = 0;
+  let latchTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const onTouch = (e: TouchEvent) => {
+    const touches = e.touches;
+    const now = performance.now();
+
+    if (touches.length > 0 && maxFingers === 0) startedAt = now;
+    maxFingers = Math.max(maxFingers, touches.length);
+
+    if (touches.length === 1) {
+      const touch = touches[0];
+      hand.setPosition('touch', { x: touch.clientX / window.innerWidth, y: touch.clientY / window.innerHeight });
+    } else {
+      hand.setPosition('touch', null);
+    }
+    hand.setGesture('touch', touches.length >= 2 ? COUNT_GESTURES[Math.min(touches.length, 5)] : null);
+
+    if (touches.length === 0) {
+      if (now - startedAt < TAP_MS) {
+        clearTimeout(latchTimer);
+        hand.setGesture('touch-tap', COUNT_GESTURES[Math.min(maxFingers, 5)]);
+        latchTimer = setTimeout(() => hand.setGesture('touch-tap', null), TAP_LATCH_MS);
+      }
+      maxFingers = 0;
+    }
+  };
+
+  const options: AddEventListenerOptions = { passive: true };
+  const events = ['touchstart', 'touchmove', 'touchend', 'touchcancel'] as const;
+  events.forEach((type) => window.addEventListener(type, onTouch, options));
+  return () => {
+    events.forEach((type) => window.removeEventListener(type, onTouch));
+    clearTimeout(latchTimer);
+    hand.setPosition('touch', null);
+    hand.setGesture('touch', null);
+    hand.setGesture('touch-tap', null);
+  };
+};
+
+export const INPUT_PROVIDERS: Record<ProviderInputId, InputProvider> = {
+  keyboard: keyboardProvider,
+  mouse: mouseProvider,
+  touch: touchProvider,
+};
+
+export const isProviderInput = (id: InputId): id is ProviderInputId => id in INPUT_PROVIDERS;
@@ -0,0 +1,163 @@
+// Whole-frame motion from a low-resolution webcam feed: no hands needed, and far
+// cheaper than landmark tracking. Each pixel keeps a running background level and
+// noise estimate, so a grainy or flickering camera doesn't read as constant motion
+// and a still scene settles back to nothing.
+
+export interface MotionDetectorOptions {
+  width: number; // Analysis resolution; motion blobs don't need more
+  height: number;
+  sensitivity: number; // A pixel moves when it leaves its background by this many noise deviations...
+  minDiff: number; // ...and by at least this much (0-255), so a clean sensor isn't hair-trigger
+  minCoverage: number; // Fraction of pixels that must move before it counts as motion
+  fullCoverage: number; // Fraction at which intensity reaches 1
+  backgroundRate: number; // Per frame: how fast still pixels update the background
+  absorbRate: number; // Per frame: how fast moving pixels do (something that stops moving fades in)
+  noiseRate: number; // Per frame: how fast the noise estimate adapts
+  velocitySmoothing: number; // 0..1 low-pass on the centroid velocity
+}
+
+export const DEFAULT_MOTION_DETECTOR_OPTIONS: MotionDetectorOptions = {
+  width: 64,
+  height: 48,
+  sensitivity: 3,
+  minDiff: 12,
+  minCoverage: 0.004,
+  fullCoverage: 0.1,
+  backgroundRate: 0.05,
+  absorbRate: 0.04,
+  noiseRate: 0.02,
+  velocitySmoothing: 0.3,
+};
+
+export interface MotionReading {
+  x: number; // Centroid of the motion, -1..1, mirrored so +x is the viewer's right
+  y: number; // -1..1, +y up
+  intensity: number; // 0..1, how much of the frame moves
+  velocity: { x: number; y: number }; // Centroid velocity in the same units per second
+}
+
+export const STILL_READING: MotionReading = { x: 0, y: 0, intensity: 0, velocity: { x: 0, y: 0 } };
+
+export class MotionDetector {
+  readonly options: MotionDetectorOptions;
+  private background: Float32Array | null = null;
+  private variance: Float32Array | null = null;
+  private last: { x: number; y: number; t: number } | null = null;
+  private velocity = { x: 0, y: 0 };
+
+  constructor(options: Partial<MotionDetectorOptions> = {}) {
+    this.options = { ...DEFAULT_MOTION_DETECTOR_OPTIONS, ...options };
+  }
+
+  // `rgba` is the frame at width × height, already mirrored (ImageData.data)
+  update(rgba: ArrayLike<number>, now: number): MotionReading {
+    const { width, height, sensitivity, minDiff, minCoverage, fullCoverage, backgroundRate, absorbRate, noiseRate } = this.options;
+    const size = width * height;
+
+    if (!this.background || !this.variance || this.background.length !== size) {
+      this.background = new Float32Array(size);
+      this.variance = new Float32Array(size).fill((minDiff / sensitivity) ** 2);
+      for (let i = 0; i < size; i++) this.background[i] = rgba[i * 4 + 1];
+      return STILL_READING;
+    }
+    const background = this.background;
+    const variance = this.variance;
+
+    // Auto exposure shifts every pixel at once; take that out before looking for motion
+    let shift = 0;
+    for (let i = 0; i < size; i++) shift += rgba[i * 4 + 1] - background[i];
+    shift /= size;
+
+    let sumX = 0;
+    let sumY = 0;
+    let count = 0;
+
+    for (let i = 0; i < size; i++) {
+      // Green channel as a cheap stand-in for luminance
+      const diff = rgba[i * 4 + 1] - shift - background[i];
+      const threshold = Math.max(minDiff, sensitivity * Math.sqrt(variance[i]));
+
+      if (Math.abs(diff) > threshold) {
+        sumX += i % width;
+        sumY += Math.floor(i / width);
+        count++;
+        background[i] += diff * absorbRate;
+        // Noise that keeps crossing the threshold raises it; capped so real motion can't run it away
+        variance[i] += (Math.min(diff * diff, threshold * threshold) - variance[i]) * noiseRate * (absorbRate / backgroundRate);
+      } else {
+        background[i] += diff * backgroundRate;
+        variance[i] += (diff * diff - variance[i]) * noiseRate;
+      }
+    }
+
+    if (count === 0 || count < size * minCoverage) {
+      this.last = null;
+      this.velocity.x *= 1 - this.options.velocitySmoothing;
+      this.velocity.y *= 1 - this.options.velocitySmoothing;
+      return { ...STILL_READING, velocity: { ...this.velocity } };
+    }
+
+    const x = ((sumX / count) / width - 0.5) * 2;
+    const y = -((sumY / count) / height - 0.5) * 2;
+
+    if (this.last && now > this.last.t) {
+      const dt = (now - this.last.t) / 1000;
+      const k = this.options.velocitySmoothing;
+      this.velocity.x += ((x - this.last.x) / dt - this.velocity.x) * k;
+      this.velocity.y += ((y - this.last.y) / dt - this.velocity.y) * k;
+    }
+    this.last = { x, y, t: now };
+
+    return {
+      x,
+      y,
+      intensity: Math.min(count / (size * fullCoverage), 1),
+      velocity: { ...this.velocity },
+    };
+  }
+
+  reset() {
+    this.background = null;
+    this.variance = null;
+    this.last = null;
+    this.velocity = { x: 0, y: 0 };
+  }
+}
+
+// Values each option accepts; outside them the detector divides by zero or never sees motion
+const isFraction = (v: number) => v > 0 && v <= 1;
+const isRate = (v: number) => v >= 0 && v <= 1;
+const OPTION_RANGES: Record<keyof MotionDetectorOptions, (v: number) => boolean> = {
+  width: (v) => Number.isInteger(v) && v > 0,
+  height: (v) => Number.isInteger(v) && v > 0,
+  sensitivity: (v) => v > 0,
+  minDiff: (v) => v >= 0 && v <= 255,
+  minCoverage: isFraction,
+  fullCoverage: isFraction,
+  backgroundRate: isFraction,
+  absorbRate: isRate,
+  noiseRate: isRate,
+  velocitySmoothing: isRate,
+};
+
+// ?windTuning=sensitivity:2.5,minDiff:8 — unknown keys and out-of-range values are skipped
+export const parseMotionDetectorOptions = (value: string | null): Partial<MotionDetectorOptions> => {
+  const options: Partial<MotionDetectorOptions> = {};
+  if (!value) return options;
+
+  value.split(',').forEach((entry) => {
+    const [key, raw] = entry.split(':').map((part) => part.trim());
+    const number = Number(raw);
+    if (!Object.hasOwn(OPTION_RANGES, key) || raw === undefined || !Number.isFinite(number)) {
+      console.warn(`Ignoring wind tuning "${entry}"`);
+      return;
+    }
+    const name = key as keyof MotionDetectorOptions;
+    if (!OPTION_RANGES[name](number)) {
+      console.warn(`Ignoring wind tuning "${entry}": out of range`);
+      return;
+    }
+    options[name] = number;
+  });
+  return options;
+};
@@ -0,0 +1,231 @@
+import { MotionEvent, MotionGesture } from '../types';
+
+// Trajectory gestures from the recent landmark history: swipes, waves, index
+// finger circles and pushes toward the camera. Each one fires a single
+// discrete event; a shared cooldown stops one movement firing twice (the last
+// stroke of a wave is also a swipe).
+
+export interface MotionSample {
+  t: number; // ms
+  palm: { x: number; y: number }; // User's frame: x to their right, y down, 0..1
+  tip: { x: number; y: number }; // Index finger tip, same frame
+  palmSize: number; // Any unit, only ratios are used
+}
+
+export interface MotionOptions {
+  swipeMinSpeed: number; // Screen widths per second
+  swipeDominance: number; // Main axis speed must beat the other axis by this factor
+  velocitySmoothing: number;
+  waveWindowMs: number;
+  waveReversals: number; // Direction changes needed within the window
+  waveMinStroke: number; // Screen widths travelled between reversals
+  circleWindowMs: number;
+  circleMinRadius: number; // Screen widths
+  circleTurn: number; // Fraction of a full turn that counts as a circle
+  circleRoundness: number; // Smallest/average radius; rejects zig-zags
+  pushWindowMs: number;
+  pushGrowth: number; // Palm size ratio over the window
+  pushMaxDrift: number; // Palm may move at most this far sideways while pushing
+  cooldownMs: number;
+}
+
+export const DEFAULT_MOTION_OPTIONS: MotionOptions = {
+  swipeMinSpeed: 1.4,
+  swipeDominance: 2.0,
+  velocitySmoothing: 0.5,
+  waveWindowMs: 1200,
+  waveReversals: 3,
+  waveMinStroke: 0.05,
+  circleWindowMs: 1600,
+  circleMinRadius: 0.04,
+  circleTurn: 0.9,
+  circleRoundness: 0.35,
+  pushWindowMs: 350,
+  pushGrowth: 1.25,
+  pushMaxDrift: 0.08,
+  cooldownMs: 450,
+};
+
+export class MotionTracker {
+  private options: MotionOptions;
+  private history: MotionSample[] = [];
+  private velocity = { x: 0, y: 0 };
+  private lastEventAt = -Infinity;
+  private nextId = 1;
+
+  constructor(options: Partial<MotionOptions> = {}) {
+    this.options = { ...DEFAULT_MOTION_OPTIONS, ...options };
+  }
+
+  reset() {
+    this.history = [];
+    this.velocity = { x: 0, y: 0 };
+  }
+
+  // Feed one frame; `sample` is null when the hand was lost, which breaks any trajectory in progress
+  update(sample: MotionSample | null): MotionEvent[] {
+    if (!sample) {
+      this.reset();
+      return [];
+    }
+    const o = this.options;
+
+    const previous = this.history[this.history.length - 1];
+    if (previous && sample.t > previous.t) {
+      const dt = (sample.t - previous.t) / 1000;
+      const vx = (sample.palm.x - previous.palm.x) / dt;
+      const vy = (sample.palm.y - previous.palm.y) / dt;
+      this.velocity.x += (vx - this.velocity.x) * o.velocitySmoothing;
+      this.velocity.y += (vy - this.velocity.y) * o.velocitySmoothing;
+    }
+
+    this.history.push(sample);
+    const horizon = Math.max(o.waveWindowMs, o.circleWindowMs, o.pushWindowMs);
+    while (this.history.length > 0 && sample.t - this.history[0].t > horizon) this.history.shift();
+
+    if (sample.t - this.lastEventAt < o.cooldownMs) return [];
+
+    // Slower, deliberate gestures are checked first so their final stroke isn't taken for a swipe
+    const event = this.detectCircle(sample.t) ?? this.detectWave(sample.t) ?? this.detectPush(sample.t) ?? this.detectSwipe();
+    if (!event) return [];
+
+    this.lastEventAt = sample.t;
+    // Start the next gesture from a clean trajectory
+    this.history = [sample];
+    return [event];
+  }
+
+  private emit(gesture: MotionGesture, direction: MotionEvent['direction'], speed: number): MotionEvent {
+    return { id: this.nextId++, gesture, direction, speed };
+  }
+
+  private recent(now: number, windowMs: number) {
+    return this.history.filter((s) => now - s.t <= windowMs);
+  }
+
+  // --- SWIPE ---
+  private detectSwipe(): MotionEvent | null {
+    const o = this.options;
+    const { x: vx, y: vy } = this.velocity;
+    const ax = Math.abs(vx);
+    const ay = Math.abs(vy);
+
+    if (ax > o.swipeMinSpeed && ax > ay * o.swipeDominance) {
+      return this.emit(vx > 0 ? 'SWIPE_RIGHT' : 'SWIPE_LEFT', { x: Math.sign(vx), y: 0, z: 0 }, ax);
+    }
+    if (ay > o.swipeMinSpeed && ay > ax * o.swipeDominance) {
+      return this.emit(vy > 0 ? 'SWIPE_DOWN' : 'SWIPE_UP', { x: 0, y: Math.sign(vy), z: 0 }, ay);
+    }
+    return null;
+  }
+
+  // --- WAVE ---
+  // Back-and-forth palm strokes: count horizontal reversals that travelled far enough
+  private detectWave(now: number): MotionEvent | null {
+    const o = this.options;
+    const samples = this.recent(now, o.waveWindowMs);
+    if (samples.length < 4) return null;
+
+    let reversals = 0;
+    let direction = 0;
+    let extreme = samples[0].palm.x;
+    let travelled = 0;
+
+    samples.forEach((s) => {
+      const dx = s.palm.x - extreme;
+      if (direction === 0) {
+        if (Math.abs(dx) >= o.waveMinStroke) {
+          direction = Math.sign(dx);
+          extreme = s.palm.x;
+        }
+      } else if (Math.sign(dx) === direction) {
+        extreme = s.palm.x; // Still going the same way
+      } else if (Math.abs(dx) >= o.waveMinStroke) {
+        reversals++;
+        travelled += Math.abs(dx);
+        direction = -direction;
+        extreme = s.palm.x;
+      }
+    });
+
+    if (reversals < o.waveReversals) return null;
+    const duration = (samples[samples.length - 1].t - samples[0].t) / 1000;
+    // Speed: strokes per second
+    return this.emit('WAVE', { x: direction, y: 0, z: 0 }, duration > 0 ? (reversals + 1) / duration : 0);
+  }
+
+  // --- CIRCLE ---
+  // Sum the angle the index tip sweeps around the centre of its recent path
+  private detectCircle(now: number): MotionEvent | null {
+    const o = this.options;
+    const samples = this.recent(now, o.circleWindowMs);
+    if (samples.length < 8) return null;
+
+    let cx = 0;
+    let cy = 0;
+    samples.forEach((s) => {
+      cx += s.tip.x;
+      cy += s.tip.y;
+    });
+    cx /= samples.length;
+    cy /= samples.length;
+
+    let swept = 0;
+    let radiusSum = 0;
+    let minRadius = Infinity;
+    let previousAngle: number | null = null;
+
+    samples.forEach((s) => {
+      const dx = s.tip.x - cx;
+      const dy = s.tip.y - cy;
+      const radius = Math.hypot(dx, dy);
+      radiusSum += radius;
+      minRadius = Math.min(minRadius, radius);
+
+      const angle = Math.atan2(dy, dx);
+      if (previousAngle !== null) {
+        let step = angle - previousAngle;
+        if (step > Math.PI) step -= Math.PI * 2;
+        if (step < -Math.PI) step += Math.PI * 2;
+        swept += step;
+      }
+      previousAngle = angle;
+    });
+
+    const meanRadius = radiusSum / samples.length;
+    const turns = Math.abs(swept) / (Math.PI * 2);
+    if (turns < o.circleTurn || meanRadius < o.circleMinRadius || minRadius < meanRadius * o.circleRoundness) {
+      return null;
+    }
+
+    // With y down, a growing angle is clockwise from the user's point of view.
+    // Direction is the rotation axis (right-hand rule, +z toward the camera).
+    const clockwise = swept > 0;
+    const duration = (samples[samples.length - 1].t - samples[0].t) / 1000;
+    return this.emit(
+      clockwise ? 'CIRCLE_CW' : 'CIRCLE_CCW',
+      { x: 0, y: 0, z: clockwise ? 1 : -1 },
+      duration > 0 ? turns / duration : 0 // Turns per second
+    );
+  }
+
+  // --- PUSH ---
+  // The palm grows in the image as the hand moves toward the camera
+  private detectPush(now: number): MotionEvent | null {
+    const o = this.options;
+    const samples = this.recent(now, o.pushWindowMs);
+    if (samples.length < 3) return null;
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    if (first.palmSize <= 0) return null;
+
+    const growth = last.palmSize / first.palmSize;
+    const drift = Math.hypot(last.palm.x - first.palm.x, last.palm.y - first.palm.y);
+    if (growth < o.pushGrowth || drift > o.pushMaxDrift) return null;
+
+    const duration = (last.t - first.t) / 1000;
+    // Speed: relative growth per second (palm sizes per second)
+    return this.emit('PUSH', { x: 0, y: 0, z: 1 }, duration > 0 ? Math.log(growth) / duration : 0);
+  }
+}
@@ -0,0 +1,25 @@
+import * as THREE from 'three';
+
+// Blossom bursts: petals near a centre fly out, tumble down, then drift back
+// onto the branch. The blossom shader animates a few concurrent bursts from
+// these slots; the cursor fills them.
+export const BURST = {
+  slots: 4,
+  duration: 3.5, // Seconds from burst to petals back on the branch
+  radius: 14, // World units around the centre that are affected
+  spread: 12, // How far petals fly out
+  gravity: 10, // How far they sink while airborne
+};
+
+// xyz = centre, w = start time on the scene clock (negative = free slot)
+export const createBurstSlots = () =>
+  Array.from({ length: BURST.slots }, () => new THREE.Vector4(0, 0, 0, -1));
+
+// Reuse a free or finished slot, else replace the oldest burst
+export const addBurst = (slots: THREE.Vector4[], center: THREE.Vector3, time: number) => {
+  let target = slots[0];
+  slots.forEach((slot) => {
+    if (slot.w < target.w) target = slot;
+  });
+  target.set(center.x, center.y, center.z, time);
+};
@@ -0,0 +1,131 @@
+import { PhotoMetadata, PhotoSource } from '../types';
+import { StoredPhoto, loadStoredPhotos } from './photoStore';
+import { getUrlParam } from './urlParams';
+
+// Photo source layer: everything the gallery can show resolves to a list of
+// PhotoSource URLs (remote, relative, blob: or data:), whatever it came from.
+
+export type PhotoOrigin = 'imported' | 'manifest' | 'folder' | 'default';
+
+export interface PhotoCollection {
+  origin: PhotoOrigin;
+  sources: PhotoSource[];
+}
+
+// Served next to the app: drop images (and optionally a manifest.json) in here
+export const DEFAULT_PHOTO_DIR = './photos/';
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|gif|avif|bmp)$/i;
+
+interface ManifestEntry extends PhotoMetadata {
+  src: string;
+  width?: number;
+  height?: number;
+}
+
+type ManifestJson = Array<string | ManifestEntry> | { photos: Array<string | ManifestEntry> };
+
+// Online placeholder set, used only when nothing else is available
+export const createDefaultPhotoSources = (count: number): PhotoSource[] => {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `default-${i}`,
+    url: `https://picsum.photos/seed/${i + 420}/300/400.jpg`,
+    aspect: 3 / 4,
+  }));
+};
+
+const fileName = (url: string) => decodeURIComponent(url.split(/[?#]/)[0].split('/').pop() ?? url);
+
+export const isImageFile = (file: File) => file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+
+// JSON manifest: either an array or { photos: [...] } of paths or
+// { src, width, height, title, date, caption, credit } entries.
+// Paths are resolved relative to the manifest itself.
+export const loadPhotoManifest = async (manifestUrl: string): Promise<PhotoSource[]> => {
+  const response = await fetch(manifestUrl);
+  if (!response.ok) throw new Error(`Photo manifest ${manifestUrl}: HTTP ${response.status}`);
+
+  const json = (await response.json()) as ManifestJson;
+  const entries = Array.isArray(json) ? json : json?.photos;
+  if (!Array.isArray(entries)) throw new Error(`Photo manifest ${manifestUrl}: expected an array of photos`);
+
+  const base = new URL(manifestUrl, window.location.href);
+  return entries.map((entry, i) => {
+    const item: ManifestEntry = typeof entry === 'string' ? { src: entry } : entry;
+    const url = new URL(item.src, base).href;
+    return {
+      id: `manifest-${i}-${item.src}`,
+      url,
+      name: fileName(url),
+      aspect: item.width && item.height ? item.width / item.height : undefined,
+      title: item.title,
+      date: item.date,
+      caption: item.caption,
+      credit: item.credit,
+    };
+  });
+};
+
+// Folder mode relies on the static server's directory index (nginx autoindex, `npx serve`, ...)
+export const loadPhotoFolder = async (folderUrl: string): Promise<PhotoSource[]> => {
+  const response = await fetch(folderUrl);
+  if (!response.ok) throw new Error(`Photo folder ${folderUrl}: HTTP ${response.status}`);
+
+  const html = await response.text();
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const base = new URL(folderUrl, window.location.href);
+
+  const urls = new Set<string>();
+  doc.querySelectorAll('a[href]').forEach((a) => {
+    const href = a.getAttribute('href');
+    if (href && IMAGE_EXTENSIONS.test(href.split(/[?#]/)[0])) {
+      urls.add(new URL(href, base).href);
+    }
+  });
+
+  return [...urls].sort().map((url, i) => ({ id: `folder-${i}-${url}`, url, name: fileName(url) }));
+};
+
+export const sourcesFromStoredPhotos = (photos: StoredPhoto[]): PhotoSource[] => {
+  return photos.map((photo) => ({
+    ...photo.meta, // Older records were stored before metadata existed
+    id: photo.id,
+    url: URL.createObjectURL(photo.blob),
+    name: photo.name,
+    aspect: photo.aspect,
+  }));
+};
+
+// Object URLs pin their blobs in memory until revoked
+export const releasePhotoSources = (sources: PhotoSource[]) => {
+  sources.forEach((source) => {
+    if (source.url.startsWith('blob:')) URL.revokeObjectURL(source.url);
+  });
+};
+
+// Startup resolution: imported set > manifest (?photos= overrides) > folder listing > placeholders
+export const resolvePhotoCollection = async (fallbackCount: number): Promise<PhotoCollection> => {
+  try {
+    const stored = await loadStoredPhotos();
+    if (stored.length > 0) return { origin: 'imported', sources: sourcesFromStoredPhotos(stored) };
+  } catch (e) {
+    console.warn('Could not read imported photos:', e);
+  }
+
+  const manifestUrl = getUrlParam('photos') ?? `${DEFAULT_PHOTO_DIR}manifest.json`;
+  try {
+    const sources = await loadPhotoManifest(manifestUrl);
+    if (sources.length > 0) return { origin: 'manifest', sources };
+  } catch {
+    // No manifest is the common case; fall through to the folder listing
+  }
+
+  try {
+    const sources = await loadPhotoFolder(DEFAULT_PHOTO_DIR);
+    if (sources.length > 0) return { origin: 'folder', sources };
+  } catch {
+    // No directory index either
+  }
+
+  return { origin: 'default', sources: createDefaultPhotoSources(fallbackCount) };
+};
@@ -0,0 +1,104 @@
+import { PhotoMetadata } from '../types';
+import { readExifMetadata } from './exif';
+
+// IndexedDB persistence for imported photos, so a venue's set survives reloads
+// without any network or server.
+
+const DB_NAME = 'sakura-dream';
+const DB_VERSION = 1;
+const STORE = 'photos';
+
+export interface StoredPhoto {
+  id: string;
+  name: string;
+  blob: Blob;
+  meta: PhotoMetadata;
+  aspect?: number; // Width / height; older records were stored without it
+  addedAt: number;
+}
+
+const openDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Wraps a single transaction; resolves once it has committed
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadStoredPhotos = async (): Promise<StoredPhoto[]> => {
+  const photos = await withStore<StoredPhoto[]>('readonly', (store) => store.getAll() as IDBRequest<StoredPhoto[]>);
+  return (photos ?? []).sort((a, b) => a.addedAt - b.addedAt);
+};
+
+// Image width / height, or undefined if the browser can't decode it
+const readAspect = (blob: Blob) =>
+  new Promise<number | undefined>((resolve) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image.naturalWidth && image.naturalHeight ? image.naturalWidth / image.naturalHeight : undefined);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(undefined);
+    };
+    image.src = url;
+  });
+
+// EXIF and shape of imported files, read apart from storing them: IndexedDB commits as soon as
+// we await anything else, and the photos still show for the session if they can't be stored.
+export const readImportedPhotos = async (files: File[]): Promise<StoredPhoto[]> => {
+  const now = Date.now();
+  const metas = await Promise.all(files.map((file) => readExifMetadata(file).catch((): PhotoMetadata => ({}))));
+  const aspects = await Promise.all(files.map(readAspect));
+  return files.map((file, i) => ({
+    id: `${now}-${i}-${file.name}`,
+    name: file.name,
+    blob: file,
+    meta: metas[i],
+    aspect: aspects[i],
+    addedAt: now + i,
+  }));
+};
+
+// Replaces the stored set: an import is "the photos for this installation", not an append
+export const replaceStoredPhotos = async (photos: StoredPhoto[]) => {
+  await withStore('readwrite', (store) => {
+    store.clear();
+    photos.forEach((photo) => store.put(photo));
+  });
+};
+
+export const clearStoredPhotos = async () => {
+  await withStore('readwrite', (store) => store.clear());
+};
@@ -0,0 +1,18 @@
+// Polaroid proportions shared by the hanging gallery and the carousel.
+// Photos fit inside a 5x5 window; the white frame keeps a polaroid margin around it.
+export const PHOTO_MAX = 5;
+export const FRAME_SIDE = 0.5;
+export const FRAME_TOP = 0.75;
+export const FRAME_BOTTOM = 1.75;
+
+// Vertical offset of the photo inside its frame (the bottom margin is deeper)
+export const PHOTO_OFFSET_Y = (FRAME_BOTTOM - FRAME_TOP) / 2;
+
+export const fitPhoto = (aspect: number) => {
+  return aspect >= 1 ? { width: PHOTO_MAX, height: PHOTO_MAX / aspect } : { width: PHOTO_MAX * aspect, height: PHOTO_MAX };
+};
+
+export const frameFor = (photo: { width: number; height: number }) => ({
+  width: photo.width + FRAME_SIDE * 2,
+  height: photo.height + FRAME_TOP + FRAME_BOTTOM,
+});
@@ -0,0 +1,130 @@
+import { getUrlParam } from './urlParams';
+
+// Rendering quality tiers, and a governor that picks one from measured frame times so the
+// same build neither stutters on a kiosk mini-PC nor idles a workstation.
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+export interface QualitySettings {
+  particles: number; // Share of each tree's particles drawn; the buffers are shuffled, so any prefix is even
+  dpr: [number, number]; // Canvas device pixel ratio, clamped to the display's
+  stars: number;
+}
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  low: { particles: 0.3, dpr: [1, 1], stars: 2000 },
+  medium: { particles: 0.55, dpr: [1, 1.5], stars: 4000 },
+  high: { particles: 0.8, dpr: [1, 2], stars: 8000 },
+  ultra: { particles: 1, dpr: [1, 2], stars: 12000 },
+};
+
+// Where the governor starts when nothing is forced
+export const DEFAULT_QUALITY_TIER: QualityTier = 'high';
+
+export interface QualityMode {
+  tier: QualityTier;
+  auto: boolean; // Let the governor step the tier from frame times
+}
+
+const parseQualityMode = (value: string, source: string): QualityMode | null => {
+  const name = value.trim().toLowerCase();
+  if (name === 'auto') return { tier: DEFAULT_QUALITY_TIER, auto: true };
+  if ((QUALITY_TIERS as string[]).includes(name)) return { tier: name as QualityTier, auto: false };
+  console.warn(`Ignoring ${source} "${value}": expected auto, ${QUALITY_TIERS.join(', ')}`);
+  return null;
+};
+
+// ?quality= wins over the deployment's VITE_QUALITY (.env); either one naming a tier pins it
+export const readQualityMode = (): QualityMode => {
+  const fromUrl = getUrlParam('quality');
+  const fromConfig: string | undefined = import.meta.env.VITE_QUALITY;
+  return (
+    (fromUrl ? parseQualityMode(fromUrl, 'quality') : null) ??
+    (fromConfig ? parseQualityMode(fromConfig, 'VITE_QUALITY') : null) ?? { tier: DEFAULT_QUALITY_TIER, auto: true }
+  );
+};
+
+export interface QualityGovernorOptions {
+  windowSeconds: number; // Frame times are averaged over windows this long
+  slowFrameMs: number; // A window averaging above this is slow...
+  fastFrameMs: number; // ...and below this fast; the gap between them is the hysteresis
+  slowWindows: number; // Consecutive slow windows before stepping down
+  fastWindows: number; // Consecutive fast windows before stepping up
+  maxFastWindows: number; // Limit on fastWindows as failed step-ups double it
+  retreatSeconds: number; // Stepping back down within this long of a step up counts as failed
+  settleSeconds: number; // Frames ignored after a change while buffers and canvas resize
+  maxFrameSeconds: number; // Longer frames (hidden tab, tree upload) say nothing about load
+}
+
+export const DEFAULT_QUALITY_GOVERNOR_OPTIONS: QualityGovernorOptions = {
+  windowSeconds: 1,
+  slowFrameMs: 1000 / 45,
+  fastFrameMs: 1000 / 55,
+  slowWindows: 2,
+  fastWindows: 5,
+  maxFastWindows: 60,
+  retreatSeconds: 15,
+  settleSeconds: 1.5,
+  maxFrameSeconds: 0.25,
+};
+
+export class QualityGovernor {
+  tier: QualityTier;
+  private options: QualityGovernorOptions;
+  private time = 0; // Seconds of frames seen
+  private windowTime = 0;
+  private windowFrames = 0;
+  private slowCount = 0;
+  private fastCount = 0;
+  private fastNeeded: number;
+  private settleUntil = 0;
+  private steppedUpAt = -Infinity;
+
+  constructor(tier: QualityTier, options: Partial<QualityGovernorOptions> = {}) {
+    this.tier = tier;
+    this.options = { ...DEFAULT_QUALITY_GOVERNOR_OPTIONS, ...options };
+    this.fastNeeded = this.options.fastWindows;
+  }
+
+  // Call once per frame with its duration in seconds; returns the new tier when it changes
+  update(delta: number): QualityTier | null {
+    const { windowSeconds, slowFrameMs, fastFrameMs, slowWindows, maxFrameSeconds } = this.options;
+    if (!(delta > 0) || delta > maxFrameSeconds) return null;
+    this.time += delta;
+    if (this.time < this.settleUntil) return null;
+
+    this.windowTime += delta;
+    this.windowFrames++;
+    if (this.windowTime < windowSeconds) return null;
+
+    const averageMs = (this.windowTime / this.windowFrames) * 1000;
+    this.windowTime = 0;
+    this.windowFrames = 0;
+    this.slowCount = averageMs > slowFrameMs ? this.slowCount + 1 : 0;
+    this.fastCount = averageMs < fastFrameMs ? this.fastCount + 1 : 0;
+
+    if (this.slowCount >= slowWindows) return this.step(-1);
+    if (this.fastCount >= this.fastNeeded) return this.step(1);
+    return null;
+  }
+
+  private step(direction: 1 | -1): QualityTier | null {
+    const index = QUALITY_TIERS.indexOf(this.tier) + direction;
+    this.slowCount = 0;
+    this.fastCount = 0;
+    if (index < 0 || index >= QUALITY_TIERS.length) return null;
+
+    const { maxFastWindows, retreatSeconds, settleSeconds } = this.options;
+    if (direction > 0) {
+      this.steppedUpAt = this.time;
+    } else if (this.time - this.steppedUpAt < retreatSeconds) {
+      // The tier above didn't hold: wait longer before trying it again
+      this.fastNeeded = Math.min(this.fastNeeded * 2, maxFastWindows);
+    }
+    this.settleUntil = this.time + settleSeconds;
+    this.tier = QUALITY_TIERS[index];
+    return this.tier;
+  }
+}
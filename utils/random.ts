@@ -0,0 +1,48 @@
+// Seeded random helpers. Every procedural step takes an explicit `Rng` so the
+// same seed reproduces the same tree, textures and photo layout.
+
+export type Rng = () => number;
+
+// Mulberry32: tiny, fast and good enough for visual randomness
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh seed for when the user didn't ask for a specific tree
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// Derive an independent stream from a base seed (e.g. photos vs. tree)
+export const deriveSeed = (seed: number, salt: number): number =>
+  (Math.imul(seed ^ 0x9e3779b9, 0x85ebca6b) + salt * 0xc2b2ae35) >>> 0;
+
+// Accepts numeric seeds as-is and hashes anything else (e.g. "spring-2025")
+export const parseSeed = (value: string): number => {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+
+  let hash = 2166136261;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+export const randomRange = (rng: Rng, min: number, max: number) => rng() * (max - min) + min;
+
+// Fisher-Yates on a copy; sorting with a random comparator is neither uniform nor reproducible
+export const shuffle = <T>(rng: Rng, items: readonly T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
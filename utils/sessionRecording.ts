@@ -0,0 +1,194 @@
+import { Landmark } from './handPose';
+import { RawHand } from './handPipeline';
+
+// Hand-tracking sessions on disk: the timestamped landmark results MediaPipe
+// produced, so a session can be fed back through the HandPipeline without a
+// webcam - for demos, bug reports and tuning thresholds against the same input.
+
+export interface RecordedFrame {
+  t: number; // ms since the recording started
+  hands: RawHand[];
+}
+
+export interface HandRecording {
+  version: 1;
+  aspect: number; // Video width / height the landmarks were normalised to
+  recordedAt: string; // ISO date
+  frames: RecordedFrame[];
+}
+
+// Landmarks are normalised; four decimals is well below MediaPipe's own jitter
+const round = (value: number) => Math.round(value * 10000) / 10000;
+const roundLandmarks = (landmarks: Landmark[]) => landmarks.map(({ x, y, z }) => ({ x: round(x), y: round(y), z: round(z) }));
+
+export class SessionRecorder {
+  private frames: RecordedFrame[] = [];
+  private startedAt: number | null = null;
+
+  get isRecording() {
+    return this.startedAt !== null;
+  }
+
+  start(now = performance.now()) {
+    this.frames = [];
+    this.startedAt = now;
+  }
+
+  capture(hands: RawHand[], now: number) {
+    if (this.startedAt === null) return;
+    this.frames.push({
+      t: Math.round(now - this.startedAt),
+      hands: hands.map((hand) => ({
+        landmarks: roundLandmarks(hand.landmarks),
+        ...(hand.worldLandmarks ? { worldLandmarks: roundLandmarks(hand.worldLandmarks) } : {}),
+        label: hand.label,
+        score: round(hand.score),
+      })),
+    });
+  }
+
+  stop(aspect: number): HandRecording {
+    this.startedAt = null;
+    return { version: 1, aspect, recordedAt: new Date().toISOString(), frames: this.frames };
+  }
+}
+
+const isLandmarkList = (value: unknown): value is Landmark[] =>
+  Array.isArray(value) &&
+  value.length === 21 &&
+  value.every((point) => point && ['x', 'y', 'z'].every((axis) => Number.isFinite(point[axis])));
+
+export const parseHandRecording = (json: unknown): HandRecording => {
+  const recording = json as Partial<HandRecording> | null;
+  if (!recording || typeof recording !== 'object' || recording.version !== 1) {
+    throw new Error('Hand recording must be a version 1 recording object');
+  }
+  if (!Number.isFinite(recording.aspect) || (recording.aspect as number) <= 0) {
+    throw new Error('Hand recording needs a positive video aspect');
+  }
+  if (!Array.isArray(recording.frames)) {
+    throw new Error('Hand recording has no frames');
+  }
+
+  let lastT = -Infinity;
+  recording.frames.forEach((frame, i) => {
+    if (!frame || !Number.isFinite(frame.t) || frame.t < lastT || !Array.isArray(frame.hands)) {
+      throw new Error(`Hand recording: frame ${i} needs a non-decreasing time and a hands list`);
+    }
+    lastT = frame.t;
+    frame.hands.forEach((hand, j) => {
+      if (!isLandmarkList(hand?.landmarks) || (hand.worldLandmarks !== undefined && !isLandmarkList(hand.worldLandmarks))) {
+        throw new Error(`Hand recording: frame ${i}, hand ${j} needs 21 landmarks`);
+      }
+      if (typeof hand.label !== 'string' || !Number.isFinite(hand.score)) {
+        throw new Error(`Hand recording: frame ${i}, hand ${j} needs a label and score`);
+      }
+    });
+  });
+
+  return recording as HandRecording;
+};
+
+// ?replay=<url> for demos; a missing or broken file just means no replay
+export const loadHandRecording = async (url: string): Promise<HandRecording | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return parseHandRecording(await response.json());
+  } catch (e) {
+    console.warn(`Could not load hand recording from ${url}:`, e);
+    return null;
+  }
+};
+
+export const downloadHandRecording = (recording: HandRecording) => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `hands-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- PLAYBACK ---
+
+export interface PlayedFrame {
+  hands: RawHand[];
+  now: number; // Pipeline time: recording time, kept increasing across loops
+}
+
+const LOOP_GAP_MS = 1000; // Empty time between loops, so gestures end before the next pass
+
+// Plays a recording at real speed or frame by frame. Call advance() every display
+// frame; it returns whichever recorded frames are due.
+export class SessionPlayer {
+  playing = true;
+  speed = 1;
+  private index = 0;
+  private clock = 0; // ms into the current pass
+  private base = 0; // Pipeline time at the start of the current pass
+  private pendingSteps = 0;
+
+  constructor(readonly recording: HandRecording, readonly loop = true) {}
+
+  get duration() {
+    return this.recording.frames[this.recording.frames.length - 1]?.t ?? 0;
+  }
+
+  get position() {
+    return this.clock;
+  }
+
+  get frameIndex() {
+    return this.index;
+  }
+
+  get finished() {
+    return !this.loop && this.index >= this.recording.frames.length;
+  }
+
+  // Pause and move on by exactly one recorded frame
+  step() {
+    this.playing = false;
+    this.pendingSteps++;
+  }
+
+  restart() {
+    this.base += this.clock + LOOP_GAP_MS;
+    this.index = 0;
+    this.clock = 0;
+  }
+
+  advance(dtMs: number): PlayedFrame[] {
+    const frames = this.recording.frames;
+    const due: PlayedFrame[] = [];
+    if (frames.length === 0) return due;
+
+    const take = () => {
+      const frame = frames[this.index++];
+      this.clock = frame.t;
+      due.push({ hands: frame.hands, now: this.base + frame.t });
+    };
+    const wrap = () => {
+      if (this.index < frames.length) return true;
+      if (!this.loop) {
+        this.playing = false;
+        return false;
+      }
+      this.restart();
+      return true;
+    };
+
+    // A pass that ran out last time starts over now, so one call never plays it twice
+    if (this.playing && wrap()) {
+      const until = this.clock + dtMs * this.speed;
+      while (this.index < frames.length && frames[this.index].t <= until) take();
+      if (this.index < frames.length) this.clock = until;
+    }
+    for (; this.pendingSteps > 0; this.pendingSteps--) {
+      if (wrap()) take();
+    }
+    return due;
+  }
+}
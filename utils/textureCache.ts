@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+
+// Reference-counted texture cache for galleries that are too large to keep
+// every image on the GPU. Textures nobody uses stay warm in a small LRU so
+// browsing back and forth doesn't reload them.
+
+const IDLE_CAPACITY = 24;
+
+interface Listener {
+  onLoad: (texture: THREE.Texture) => void;
+  onError?: (error: unknown) => void;
+}
+
+interface Entry {
+  texture: THREE.Texture | null;
+  refs: number;
+  listeners: Set<Listener>;
+}
+
+const entries = new Map<string, Entry>();
+const idle: string[] = []; // Least recently released first
+const loader = new THREE.TextureLoader();
+loader.setCrossOrigin('anonymous');
+
+const evictIdle = () => {
+  while (idle.length > IDLE_CAPACITY) {
+    const url = idle.shift()!;
+    const entry = entries.get(url);
+    if (entry && entry.refs === 0) {
+      entry.texture?.dispose();
+      entries.delete(url);
+    }
+  }
+};
+
+// Calls `onLoad` once the texture is ready (synchronously if cached), or `onError` if it can't be
+// loaded; a failed URL is forgotten, so the next acquire tries again. Returns the release function.
+export const acquireTexture = (
+  url: string,
+  onLoad: (texture: THREE.Texture) => void,
+  onError?: (error: unknown) => void
+): (() => void) => {
+  let entry = entries.get(url);
+
+  if (!entry) {
+    const created: Entry = { texture: null, refs: 0, listeners: new Set() };
+    entry = created;
+    entries.set(url, created);
+    loader.load(
+      url,
+      (texture) => {
+        // Evicted while loading: nobody will release it
+        if (entries.get(url) !== created) {
+          texture.dispose();
+          return;
+        }
+        texture.colorSpace = THREE.SRGBColorSpace;
+        created.texture = texture;
+        created.listeners.forEach((listener) => listener.onLoad(texture));
+        created.listeners.clear();
+      },
+      undefined,
+      (error) => {
+        console.warn(`Could not load texture ${url}:`, error);
+        if (entries.get(url) === created) {
+          entries.delete(url);
+          const idleIndex = idle.indexOf(url);
+          if (idleIndex !== -1) idle.splice(idleIndex, 1);
+        }
+        created.listeners.forEach((listener) => listener.onError?.(error));
+        created.listeners.clear();
+      }
+    );
+  }
+
+  const idleIndex = idle.indexOf(url);
+  if (idleIndex !== -1) idle.splice(idleIndex, 1);
+
+  const listener: Listener = { onLoad, onError };
+  entry.refs++;
+  if (entry.texture) {
+    onLoad(entry.texture);
+  } else {
+    entry.listeners.add(listener);
+  }
+
+  const held = entry;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    held.listeners.delete(listener);
+    held.refs--;
+    // A failed load has already been dropped, and the URL may be cached again by now
+    if (held.refs === 0 && entries.get(url) === held) {
+      idle.push(url);
+      evictIdle();
+    }
+  };
+};
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { createRng, randomSeed } from './random';
 
 export const createPetalTexture = (): THREE.Texture => {
   const canvas = document.createElement('canvas');
@@ -34,7 +35,8 @@ export const createPetalTexture = (): THREE.Texture => {
   return texture;
 };
 
-export const createBarkTexture = (): THREE.Texture => {
+export const createBarkTexture = (seed = randomSeed()): THREE.Texture => {
+  const rng = createRng(seed);
   const canvas = document.createElement('canvas');
   canvas.width = 64;
   canvas.height = 64;
@@ -48,11 +50,11 @@ export const createBarkTexture = (): THREE.Texture => {
 
   // Add noise/grain
   for(let i=0; i<500; i++) {
-      ctx.fillStyle = Math.random() > 0.5 ? 'rgba(0,0,0,0.3)' : 'rgba(255,255,255,0.1)';
-      const x = Math.random() * 64;
-      const y = Math.random() * 64;
-      const w = Math.random() * 4 + 1;
-      const h = Math.random() * 2 + 1;
+      ctx.fillStyle = rng() > 0.5 ? 'rgba(0,0,0,0.3)' : 'rgba(255,255,255,0.1)';
+      const x = rng() * 64;
+      const y = rng() * 64;
+      const w = rng() * 4 + 1;
+      const h = rng() * 2 + 1;
       ctx.fillRect(x, y, w, h);
   }
 
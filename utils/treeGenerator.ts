@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+import { TreeData, TreeShape } from '../types';
+import type { TreeJob, TreeWorkerMessage } from './treeWorker';
+
+// Tree generation in a Web Worker, so large species don't freeze the page. Progress
+// shows in drei's <Loader>, which follows three's default loading manager: each tree
+// registers as PROGRESS_ITEMS items and completes them as it grows.
+
+const PROGRESS_ITEMS = 20;
+
+interface PendingTree {
+  id: number;
+  resolve: (tree: TreeData | null) => void;
+  reject: (error: Error) => void;
+  itemsDone: number;
+}
+
+const progressItem = (id: number, index: number) => `tree-${id}#${index}`;
+
+const toTreeData = ({ wood, blossoms, leafNodes }: Extract<TreeWorkerMessage, { type: 'done' }>): TreeData => ({
+  wood,
+  blossoms,
+  leafNodes: Array.from({ length: leafNodes.length / 3 }, (_, i) => new THREE.Vector3().fromArray(leafNodes, i * 3)),
+});
+
+export class TreeGenerator {
+  private worker: Worker | null = null;
+  private pending: PendingTree | null = null;
+  private nextId = 1;
+
+  // Resolves with the tree, or null if a newer request or cancel() replaced it
+  generate(params: TreeShape, seed: number, startPos: THREE.Vector3): Promise<TreeData | null> {
+    this.cancel();
+    const worker = (this.worker ??= this.createWorker());
+    const id = this.nextId++;
+    for (let i = 0; i < PROGRESS_ITEMS; i++) THREE.DefaultLoadingManager.itemStart(progressItem(id, i));
+
+    return new Promise((resolve, reject) => {
+      this.pending = { id, resolve, reject, itemsDone: 0 };
+      const job: TreeJob = { id, params, seed, startPos: startPos.toArray() };
+      worker.postMessage(job);
+    });
+  }
+
+  // A tree can't be interrupted halfway, so the worker growing it goes with it
+  cancel() {
+    if (!this.pending) return;
+    this.settle()?.resolve(null);
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  dispose() {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private createWorker() {
+    const worker = new Worker(new URL('./treeWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = ({ data }: MessageEvent<TreeWorkerMessage>) => this.handleMessage(data);
+    worker.onerror = (e) => {
+      e.preventDefault();
+      this.settle()?.reject(new Error(e.message || 'Tree worker failed to start'));
+      worker.terminate();
+      if (this.worker === worker) this.worker = null;
+    };
+    return worker;
+  }
+
+  private handleMessage(message: TreeWorkerMessage) {
+    if (message.id !== this.pending?.id) return; // From a request already replaced
+
+    if (message.type === 'progress') {
+      this.advanceProgress(Math.floor(message.fraction * PROGRESS_ITEMS));
+    } else if (message.type === 'done') {
+      this.settle()?.resolve(toTreeData(message));
+    } else {
+      this.settle()?.reject(new Error(message.message));
+    }
+  }
+
+  private advanceProgress(items: number) {
+    const pending = this.pending!;
+    for (; pending.itemsDone < Math.min(items, PROGRESS_ITEMS); pending.itemsDone++) {
+      THREE.DefaultLoadingManager.itemEnd(progressItem(pending.id, pending.itemsDone));
+    }
+  }
+
+  // Completes the loader's remaining items and hands back the finished request
+  private settle(): PendingTree | null {
+    const pending = this.pending;
+    if (!pending) return null;
+    this.advanceProgress(PROGRESS_ITEMS);
+    this.pending = null;
+    return pending;
+  }
+}
@@ -0,0 +1,380 @@
+import { ParamRange, ShaderTuning, TreeShape } from '../types';
+import { getUrlParam } from './urlParams';
+
+// Tree species: the built-in presets, the limits every shape is validated against,
+// and JSON load/save so new species can be designed without touching the code.
+
+export interface TreePreset {
+  id: string;
+  name: string;
+  params: TreeShape;
+  shader: ShaderTuning;
+}
+
+type NumberKey = { [K in keyof TreeShape]: TreeShape[K] extends number ? K : never }[keyof TreeShape];
+type RangeKey = { [K in keyof TreeShape]: TreeShape[K] extends ParamRange ? K : never }[keyof TreeShape];
+type ColorKey = 'woodColor' | 'woodHighlight';
+
+export interface ParamLimits {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+}
+
+// In display order; the same limits apply to presets from JSON and to anything that edits a shape
+export const TREE_PARAM_LIMITS: Record<NumberKey | RangeKey, ParamLimits> = {
+  depth: { label: 'Depth', min: 1, max: 7, step: 1, integer: true },
+  branchLength: { label: 'Trunk Length', min: 5, max: 80, step: 1 },
+  trunkRadius: { label: 'Trunk Radius', min: 2, max: 20, step: 0.5 },
+  trunkBranches: { label: 'Trunk Branches', min: 1, max: 6, step: 1, integer: true },
+  branches: { label: 'Branches', min: 1, max: 4, step: 1, integer: true },
+  trunkSpread: { label: 'Trunk Spread', min: 0, max: 2, step: 0.05 },
+  limbSpread: { label: 'Limb Spread', min: 0, max: 2, step: 0.05 },
+  twigSpread: { label: 'Twig Spread', min: 0, max: 2, step: 0.05 },
+  lengthDecay: { label: 'Length Decay', min: 0.5, max: 1, step: 0.01 },
+  radiusDecay: { label: 'Radius Decay', min: 0.3, max: 0.95, step: 0.01 },
+  trunkLift: { label: 'Trunk Lift', min: -1, max: 1.5, step: 0.05 },
+  branchLift: { label: 'Branch Lift', min: -1, max: 1, step: 0.05 },
+  clusters: { label: 'Clusters', min: 0, max: 8, step: 1, integer: true },
+  clusterParticles: { label: 'Cluster Particles', min: 0, max: 200, step: 5, integer: true },
+  blossomSize: { label: 'Blossom Size', min: 1, max: 15, step: 0.5 },
+  droop: { label: 'Droop', min: 0, max: 30, step: 0.5 },
+  weep: { label: 'Weep', min: 0, max: 20, step: 0.5 },
+};
+
+export const SHADER_PARAM_LIMITS: Record<keyof ShaderTuning, ParamLimits> = {
+  windAmplitude: { label: 'Wind Amplitude', min: 0, max: 4, step: 0.05 },
+  flutter: { label: 'Flutter', min: 0, max: 3, step: 0.05 },
+  orbitSpeed: { label: 'Orbit Speed', min: 0, max: 1, step: 0.01 },
+  pointScale: { label: 'Point Size', min: 0.25, max: 3, step: 0.05 },
+  alphaClip: { label: 'Alpha Clip', min: 0, max: 0.95, step: 0.01 },
+};
+
+const RANGE_KEYS: RangeKey[] = ['trunkBranches', 'branches', 'trunkSpread', 'limbSpread', 'twigSpread'];
+const COLOR_KEYS: ColorKey[] = ['woodColor', 'woodHighlight'];
+
+// Generation cost grows exponentially with depth and branching; past these the page stalls
+const MAX_BRANCH_TIPS = 2000;
+const MAX_BLOSSOM_PARTICLES = 400_000;
+
+// --- PRESETS ---
+
+// The original tree; other species and partial JSON presets start from it
+export const SOMEI_YOSHINO: TreeShape = {
+  depth: 6,
+  branchLength: 35,
+  trunkRadius: 10,
+  trunkBranches: [3, 4],
+  branches: [2, 3],
+  trunkSpread: [0.3, 0.6],
+  limbSpread: [0.4, 0.9],
+  twigSpread: [0.3, 0.8],
+  lengthDecay: 0.82,
+  radiusDecay: 0.65,
+  trunkLift: 0.4,
+  branchLift: 0.15,
+  clusters: 5,
+  clusterParticles: 90,
+  blossomSize: 6,
+  droop: 3,
+  weep: 0,
+  woodColor: '#1a0b08', // Very dark, almost black brown
+  woodHighlight: '#3e2b24', // Dark bark highlight
+  blossomColors: ['#ffb7c5', '#ffc0cb', '#ffe4e1', '#ffffff', '#ff9eb5'],
+};
+
+export const DEFAULT_SHADER_TUNING: ShaderTuning = {
+  windAmplitude: 1,
+  flutter: 0.6,
+  orbitSpeed: 0.2,
+  pointScale: 1,
+  alphaClip: 0.3,
+};
+
+export const TREE_PRESETS: TreePreset[] = [
+  { id: 'somei-yoshino', name: 'Somei-yoshino', params: SOMEI_YOSHINO, shader: DEFAULT_SHADER_TUNING },
+  {
+    // Limbs arch out and the blossoms hang in long curtains that swing wider
+    id: 'shidare-zakura',
+    name: 'Shidare-zakura',
+    shader: { ...DEFAULT_SHADER_TUNING, windAmplitude: 1.4 },
+    params: {
+      ...SOMEI_YOSHINO,
+      branchLength: 40,
+      trunkRadius: 9,
+      trunkSpread: [0.4, 0.7],
+      limbSpread: [0.6, 1.0],
+      twigSpread: [0.5, 0.9],
+      lengthDecay: 0.8,
+      radiusDecay: 0.62,
+      trunkLift: 0.6,
+      branchLift: -0.2,
+      clusters: 4,
+      clusterParticles: 90,
+      blossomSize: 5.5,
+      droop: 10,
+      weep: 8,
+      woodColor: '#160907',
+      woodHighlight: '#35231c',
+      blossomColors: ['#ff9eb5', '#ffa6c1', '#ffb7c5', '#ffd1dc', '#f78fa7'],
+    },
+  },
+  {
+    // Low, gnarled and sparse, with small deep-pink flowers close to the wood
+    id: 'ume',
+    name: 'Plum',
+    shader: DEFAULT_SHADER_TUNING,
+    params: {
+      ...SOMEI_YOSHINO,
+      depth: 5,
+      branchLength: 30,
+      trunkRadius: 8,
+      trunkBranches: [2, 3],
+      trunkSpread: [0.5, 0.9],
+      limbSpread: [0.6, 1.1],
+      twigSpread: [0.5, 1.0],
+      lengthDecay: 0.85,
+      radiusDecay: 0.62,
+      trunkLift: 0.25,
+      branchLift: 0.1,
+      clusters: 3,
+      clusterParticles: 60,
+      blossomSize: 5,
+      droop: 1.5,
+      woodColor: '#120806',
+      woodHighlight: '#2e1f1a',
+      blossomColors: ['#c2185b', '#d81b60', '#f06292', '#fce4ec', '#ffffff'],
+    },
+  },
+  {
+    // A wide, flat canopy dripping long violet racemes
+    id: 'wisteria',
+    name: 'Wisteria',
+    shader: DEFAULT_SHADER_TUNING,
+    params: {
+      ...SOMEI_YOSHINO,
+      depth: 5,
+      branchLength: 30,
+      trunkRadius: 7,
+      trunkSpread: [0.7, 1.0],
+      limbSpread: [0.6, 1.0],
+      twigSpread: [0.4, 0.8],
+      lengthDecay: 0.88,
+      radiusDecay: 0.6,
+      trunkLift: 0.5,
+      branchLift: 0.05,
+      clusters: 5,
+      clusterParticles: 100,
+      blossomSize: 5,
+      droop: 18,
+      weep: 3,
+      woodColor: '#1c1410',
+      woodHighlight: '#3b2f27',
+      blossomColors: ['#9575cd', '#b39ddb', '#7e57c2', '#d1c4e9', '#ede7f6'],
+    },
+  },
+  {
+    // Bare branches, frosted grey; the polaroids still hang from the tips
+    id: 'winter',
+    name: 'Winter',
+    shader: DEFAULT_SHADER_TUNING,
+    params: {
+      ...SOMEI_YOSHINO,
+      clusters: 0,
+      woodColor: '#1f1a18',
+      woodHighlight: '#6b625d',
+      blossomColors: ['#ffffff'],
+    },
+  },
+];
+
+export const DEFAULT_TREE_PRESET = TREE_PRESETS[0];
+
+// --- VALIDATION ---
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isHexColor = (v: unknown): v is string => typeof v === 'string' && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(v);
+
+const fit = (value: number, { min, max, integer }: ParamLimits) => {
+  const clamped = Math.min(max, Math.max(min, value));
+  return integer ? Math.round(clamped) : clamped;
+};
+
+const readNumber = (key: string, value: unknown, limits: ParamLimits, warn: (message: string) => void) => {
+  if (!isNumber(value)) {
+    warn(`${key} must be a number`);
+    return null;
+  }
+  const fitted = fit(value, limits);
+  if (fitted !== value) warn(`${key} ${value} adjusted to ${fitted} (${limits.min}–${limits.max})`);
+  return fitted;
+};
+
+const mean = ([min, max]: ParamRange) => (min + max) / 2;
+
+// Expected number of branch tips, which is also the number of polaroid anchors
+export const estimateBranchTips = (shape: TreeShape) =>
+  shape.depth === 0 ? 1 : mean(shape.trunkBranches) * mean(shape.branches) ** (shape.depth - 1);
+
+// Too deep or bushy a tree is cut back a level at a time, then its blossoms are thinned
+export const fitTreeBudget = (shape: TreeShape, warn: (message: string) => void = () => {}): TreeShape => {
+  const fitted = { ...shape };
+  while (fitted.depth > TREE_PARAM_LIMITS.depth.min && estimateBranchTips(fitted) > MAX_BRANCH_TIPS) fitted.depth--;
+  if (fitted.depth !== shape.depth) warn(`depth ${shape.depth} grows too many branches, using ${fitted.depth}`);
+
+  const perTip = Math.floor(MAX_BLOSSOM_PARTICLES / Math.max(1, estimateBranchTips(fitted) * fitted.clusters));
+  if (fitted.clusterParticles > perTip) {
+    warn(`${fitted.clusterParticles} particles per cluster is too many blossoms, using ${perTip}`);
+    fitted.clusterParticles = perTip;
+  }
+  return fitted;
+};
+
+// Shape from JSON: missing or invalid fields keep `base`'s value, out-of-range ones are
+// clamped to TREE_PARAM_LIMITS. Every correction is reported with a warning.
+export const parseTreeShape = (json: unknown, base: TreeShape = SOMEI_YOSHINO, context = 'Tree preset'): TreeShape => {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error(`${context}: params must be an object`);
+  }
+  const input = json as Record<string, unknown>;
+  const warn = (message: string) => console.warn(`${context}: ${message}`);
+  const shape: TreeShape = { ...base, blossomColors: [...base.blossomColors] };
+  const ranges: Record<RangeKey, ParamRange> = shape;
+  const numbers: Record<NumberKey, number> = shape;
+
+  Object.keys(input)
+    .filter((key) => !Object.hasOwn(base, key))
+    .forEach((key) => warn(`unknown parameter "${key}"`));
+
+  (Object.keys(TREE_PARAM_LIMITS) as (NumberKey | RangeKey)[]).forEach((key) => {
+    const value = input[key];
+    if (value === undefined) return;
+    const limits = TREE_PARAM_LIMITS[key];
+
+    if ((RANGE_KEYS as string[]).includes(key)) {
+      if (!Array.isArray(value) || value.length !== 2 || !value.every(isNumber)) {
+        warn(`${key} must be [min, max]`);
+        return;
+      }
+      const range = [fit(value[0], limits), fit(value[1], limits)].sort((a, b) => a - b) as ParamRange;
+      if (range[0] !== value[0] || range[1] !== value[1]) warn(`${key} adjusted to [${range[0]}, ${range[1]}]`);
+      ranges[key as RangeKey] = range;
+    } else {
+      const fitted = readNumber(key, value, limits, warn);
+      if (fitted !== null) numbers[key as NumberKey] = fitted;
+    }
+  });
+
+  COLOR_KEYS.forEach((key) => {
+    const value = input[key];
+    if (value === undefined) return;
+    if (isHexColor(value)) shape[key] = value;
+    else warn(`${key} must be a hex colour like "#3e2b24"`);
+  });
+
+  if (input.blossomColors !== undefined) {
+    const colors = Array.isArray(input.blossomColors) ? input.blossomColors.filter(isHexColor) : [];
+    if (!Array.isArray(input.blossomColors) || colors.length !== input.blossomColors.length) {
+      warn('blossomColors must be a list of hex colours');
+    }
+    if (colors.length > 0) shape.blossomColors = colors;
+  }
+
+  return fitTreeBudget(shape, warn);
+};
+
+// Shader values from JSON, the same way: invalid ones keep `base`'s, out-of-range ones are clamped
+export const parseShaderTuning = (json: unknown, base: ShaderTuning = DEFAULT_SHADER_TUNING, context = 'Tree preset'): ShaderTuning => {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error(`${context}: shader must be an object`);
+  }
+  const input = json as Record<string, unknown>;
+  const warn = (message: string) => console.warn(`${context}: ${message}`);
+  const tuning = { ...base };
+
+  Object.keys(input).forEach((key) => {
+    if (!Object.hasOwn(SHADER_PARAM_LIMITS, key)) {
+      warn(`unknown shader value "${key}"`);
+      return;
+    }
+    const name = key as keyof ShaderTuning;
+    const fitted = readNumber(name, input[name], SHADER_PARAM_LIMITS[name], warn);
+    if (fitted !== null) tuning[name] = fitted;
+  });
+  return tuning;
+};
+
+const slug = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Preset format: { "id": "weeping-plum", "name": "Weeping Plum", "params": { ...TreeShape }, "shader": { ...ShaderTuning } }.
+// `id` defaults to the name; params and shader start from Somei-yoshino, so a preset lists only what differs.
+export const parseTreePreset = (json: unknown): TreePreset => {
+  const preset = json as Partial<Record<keyof TreePreset, unknown>> | null;
+  if (!preset || typeof preset !== 'object' || typeof preset.name !== 'string' || !preset.name.trim()) {
+    throw new Error('Tree preset must be an object with a name');
+  }
+  const id = typeof preset.id === 'string' && slug(preset.id) ? slug(preset.id) : slug(preset.name);
+  if (!id) throw new Error(`Tree preset "${preset.name}" needs an id`);
+  const context = `Tree preset "${preset.name}"`;
+  return {
+    id,
+    name: preset.name.trim(),
+    params: parseTreeShape(preset.params ?? {}, SOMEI_YOSHINO, context),
+    shader: parseShaderTuning(preset.shader ?? {}, DEFAULT_SHADER_TUNING, context),
+  };
+};
+
+// A single preset, an array of them, or { "presets": [...] }. Broken entries are skipped with a warning.
+export const parseTreePresets = (json: unknown): TreePreset[] => {
+  const presets = typeof json === 'object' && json !== null && 'presets' in json ? json.presets : undefined;
+  const list: unknown[] = Array.isArray(json) ? json : Array.isArray(presets) ? presets : [json];
+  return list.flatMap((entry) => {
+    try {
+      return [parseTreePreset(entry)];
+    } catch (e) {
+      console.warn('Skipping tree preset:', e);
+      return [];
+    }
+  });
+};
+
+// Later presets replace earlier ones with the same id, keeping their place in the list
+export const mergeTreePresets = (presets: TreePreset[], added: TreePreset[]): TreePreset[] => {
+  const merged = [...presets];
+  added.forEach((preset) => {
+    const index = merged.findIndex((existing) => existing.id === preset.id);
+    if (index >= 0) merged[index] = preset;
+    else merged.push(preset);
+  });
+  return merged;
+};
+
+// --- LOAD / SAVE ---
+
+// ./trees.json next to the app, or ?trees=<url>; just the built-ins if neither exists
+export const loadTreePresets = async (): Promise<TreePreset[]> => {
+  const url = getUrlParam('trees') ?? './trees.json';
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return TREE_PRESETS;
+    return mergeTreePresets(TREE_PRESETS, parseTreePresets(await response.json()));
+  } catch (e) {
+    if (getUrlParam('trees')) console.warn(`Could not load tree presets from ${url}:`, e);
+    return TREE_PRESETS;
+  }
+};
+
+export const treePresetToJson = (preset: TreePreset) =>
+  JSON.stringify({ id: preset.id, name: preset.name, params: preset.params, shader: preset.shader }, null, 2);
+
+export const downloadTreePreset = (preset: TreePreset) => {
+  const blob = new Blob([treePresetToJson(preset)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `tree-${preset.id}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
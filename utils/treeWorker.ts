@@ -0,0 +1,46 @@
+import * as THREE from 'three';
+import { ParticleData, TreeShape } from '../types';
+import { generateTree } from './geometry';
+
+// Grows trees off the main thread (see TreeGenerator). The particle buffers go back
+// as transferables, so the finished tree is handed over without a copy.
+
+export interface TreeJob {
+  id: number;
+  params: TreeShape;
+  seed: number;
+  startPos: [number, number, number];
+}
+
+export type TreeWorkerMessage =
+  | { id: number; type: 'progress'; fraction: number }
+  | { id: number; type: 'done'; wood: ParticleData; blossoms: ParticleData; leafNodes: Float64Array }
+  | { id: number; type: 'error'; message: string };
+
+// Smallest progress change worth a message
+const PROGRESS_STEP = 0.02;
+
+const worker = self as unknown as Worker;
+
+worker.onmessage = ({ data: job }: MessageEvent<TreeJob>) => {
+  try {
+    let reported = 0;
+    const tree = generateTree({ ...job.params, seed: job.seed, startPos: new THREE.Vector3(...job.startPos) }, (fraction) => {
+      if (fraction - reported < PROGRESS_STEP) return;
+      reported = fraction;
+      worker.postMessage({ id: job.id, type: 'progress', fraction } satisfies TreeWorkerMessage);
+    });
+
+    const leafNodes = new Float64Array(tree.leafNodes.length * 3);
+    tree.leafNodes.forEach((node, i) => node.toArray(leafNodes, i * 3));
+    const buffers = [tree.wood, tree.blossoms].flatMap(({ formations, ...arrays }) =>
+      [...Object.values(arrays), ...Object.values(formations)].map((array) => array.buffer)
+    );
+    worker.postMessage(
+      { id: job.id, type: 'done', wood: tree.wood, blossoms: tree.blossoms, leafNodes } satisfies TreeWorkerMessage,
+      [...buffers, leafNodes.buffer]
+    );
+  } catch (e) {
+    worker.postMessage({ id: job.id, type: 'error', message: e instanceof Error ? e.message : String(e) } satisfies TreeWorkerMessage);
+  }
+};
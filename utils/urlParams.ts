@@ -0,0 +1,26 @@
+import { parseSeed } from './random';
+
+// Shareable state lives in the query string so a curator can send a link
+// that restores exactly what they were looking at.
+
+export const getUrlParam = (name: string): string | null => {
+  return new URLSearchParams(window.location.search).get(name);
+};
+
+export const setUrlParam = (name: string, value: string | null) => {
+  const url = new URL(window.location.href);
+  if (value === null) {
+    url.searchParams.delete(name);
+  } else {
+    url.searchParams.set(name, value);
+  }
+  // replaceState keeps the back button free of every tweak
+  window.history.replaceState(window.history.state, '', url);
+};
+
+export const readSeedFromUrl = (): number | null => {
+  const raw = getUrlParam('seed');
+  return raw ? parseSeed(raw) : null;
+};
+
+export const writeSeedToUrl = (seed: number) => setUrlParam('seed', String(seed));
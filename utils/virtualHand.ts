@@ -0,0 +1,134 @@
+import { Gesture, HandReading, HandUpdate, MotionEvent, MotionGesture } from '../types';
+import { GestureEvent, GestureRecognizer } from './gestureRecognizer';
+
+// A hand assembled from camera-free inputs. Providers (keyboard, mouse, touch)
+// report what they know, each under its own source id; the virtual hand merges
+// them and runs the same recogniser as the camera, so the app receives an
+// identical HandUpdate / gesture event / motion event stream.
+
+interface SourceState {
+  gesture: Gesture | null;
+  gestureAt: number;
+  position: { x: number; y: number } | null;
+  positionAt: number;
+  pinching: boolean;
+}
+
+export interface VirtualFrame {
+  update: HandUpdate;
+  events: GestureEvent[];
+  motions: MotionEvent[];
+}
+
+const GESTURE_FINGERS: Record<Gesture, number> = {
+  NONE: 0,
+  FIST: 0,
+  OPEN_HAND: 5,
+  ONE_FINGER: 1,
+  TWO_FINGERS: 2,
+  COUNT_1: 1,
+  COUNT_2: 2,
+  COUNT_3: 3,
+  COUNT_4: 4,
+};
+
+const CENTER = { x: 0.5, y: 0.5 };
+
+export class VirtualHand {
+  private sources = new Map<string, SourceState>();
+  // Inputs here are exact, so a released key shouldn't linger like a lost camera hand
+  private recognizer = new GestureRecognizer({ lostGraceMs: 150 });
+  private motions: MotionEvent[] = [];
+  private nextMotionId = 1;
+  private wasActive = false;
+
+  private source(id: string): SourceState {
+    let state = this.sources.get(id);
+    if (!state) {
+      state = { gesture: null, gestureAt: 0, position: null, positionAt: 0, pinching: false };
+      this.sources.set(id, state);
+    }
+    return state;
+  }
+
+  setGesture(id: string, gesture: Gesture | null) {
+    const state = this.source(id);
+    if (state.gesture === gesture) return;
+    state.gesture = gesture;
+    state.gestureAt = performance.now();
+  }
+
+  setPosition(id: string, position: { x: number; y: number } | null) {
+    const state = this.source(id);
+    state.position = position;
+    state.positionAt = performance.now();
+  }
+
+  setPinching(id: string, pinching: boolean) {
+    this.source(id).pinching = pinching;
+  }
+
+  pushMotion(gesture: MotionGesture, direction: MotionEvent['direction'], speed: number) {
+    this.motions.push({ id: this.nextMotionId++, gesture, direction, speed });
+  }
+
+  // One frame of output, or null while nothing is going on (after a final idle update)
+  frame(now: number): VirtualFrame | null {
+    // The most recent report wins when several sources disagree
+    let gesture: Gesture | null = null;
+    let gestureAt = -Infinity;
+    let position: { x: number; y: number } | null = null;
+    let positionAt = -Infinity;
+    let pinching = false;
+
+    this.sources.forEach((state) => {
+      if (state.gesture && state.gestureAt > gestureAt) {
+        gesture = state.gesture;
+        gestureAt = state.gestureAt;
+      }
+      if (state.position && state.positionAt > positionAt) {
+        position = state.position;
+        positionAt = state.positionAt;
+      }
+      pinching = pinching || state.pinching;
+    });
+
+    const recognized = this.recognizer.update(gesture ? { gesture, confidence: 1 } : null, now);
+    const motions = this.motions;
+    this.motions = [];
+
+    const active = gesture !== null || position !== null || recognized.gesture !== 'NONE';
+    if (!active && !this.wasActive && recognized.events.length === 0 && motions.length === 0) return null;
+    this.wasActive = active;
+
+    const current: { x: number; y: number } = position ?? CENTER;
+    const hands: HandReading[] = active
+      ? [{
+          handedness: 'Right',
+          fingerCount: GESTURE_FINGERS[recognized.gesture],
+          gesture: recognized.gesture,
+          confidence: recognized.confidence,
+          position: current,
+          pointer: { ...current, pinching },
+          palmSize: null,
+          isTracking: true,
+        }]
+      : [];
+
+    return {
+      update: {
+        fingerCount: hands[0]?.fingerCount ?? 0,
+        gesture: recognized.gesture,
+        confidence: recognized.confidence,
+        position: current,
+        pointer: position ? { ...current, pinching } : null,
+        palmSize: null,
+        isTracking: active,
+        hands,
+        bimanual: null,
+      },
+      events: recognized.events,
+      motions,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import * as THREE from 'three';
+
+// Shared wind model. The blossom shader and the hanging polaroids both read
+// these constants so a photo sways with the branch it hangs from.
+export const WIND = {
+  swayFreq: 1.2,
+  swayAmp: 0.35,
+  heightFreq: 0.04,
+  heightGain: 0.01,
+  crossFreq: 1.1,
+  crossAmp: 0.25,
+};
+
+// GLSL needs a decimal point on float literals
+export const glslFloat = (value: number) => (Number.isInteger(value) ? value.toFixed(1) : String(value));
+
+// CPU mirror of the tree-state sway in the vertex shader (phase = 0); `amplitude` is ShaderTuning.windAmplitude
+export const sampleTreeWind = (pos: THREE.Vector3, time: number, out = new THREE.Vector3(), amplitude = 1) => {
+  const x = Math.sin(time * WIND.swayFreq + pos.y * WIND.heightFreq) * WIND.swayAmp * amplitude * (pos.y * WIND.heightGain + 1.0);
+  const z = Math.cos(time * WIND.crossFreq + (pos.x + x) * WIND.heightFreq) * WIND.crossAmp * amplitude;
+  return out.set(x, 0, z);
+};
+
+// Gusts from whole-body motion (the webcam wind input). Motion on screen becomes a
+// world-space wind vector: the crown leans downwind and loose petals are carried off.
+export const GUST = {
+  gain: 4, // World units of lean per screen-half per second of motion, at full intensity
+  max: 10, // Strongest gust, in world units of lean
+  rise: 3, // 1/s: how fast the wind picks up...
+  calm: 0.8, // ...and dies down, so gusts linger a little
+  shedFraction: 0.35, // Share of petals that let go in the strongest gust
+  shedPeriod: 2.6, // Seconds a shed petal spends in the air before it grows back
+  shedDistance: 30, // How far a petal is carried downwind
+  shedGravity: 18, // How far it falls meanwhile
+};
+
+// CPU mirror of the gust lean in the vertex shader: higher up leans further, like the sway
+export const addGustLean = (pos: THREE.Vector3, gust: THREE.Vector3, out: THREE.Vector3) =>
+  out.addScaledVector(gust, pos.y * WIND.heightGain + 1.0);
@@ -17,6 +17,8 @@ export default defineConfig(({ mode }) => {
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
+          // The package only exports its JS bundle; the WASM runtime is imported as asset URLs
+          '@mediapipe/tasks-vision/wasm': path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm'),
         }
       }
     };